@@ -0,0 +1,41 @@
+import { Readable } from 'stream';
+import * as legacy from 'json-stream-builder-legacy';
+
+import * as current from '../json-stream-builder';
+
+/** Part of the api common to the compared implementations */
+export interface ValueBuilder {
+    primitive(data: current.JsonPrimitive): unknown;
+    object(): ObjectBuilder;
+    array(): ArrayBuilder;
+    asStream(): Readable;
+}
+
+export interface ObjectBuilder {
+    addProperty(key: string): ValueBuilder;
+    addProperty(key: string, value: current.JsonValue): ObjectBuilder;
+    end(): unknown;
+}
+
+export interface ArrayBuilder {
+    addItem(): ValueBuilder;
+    addItem(value: current.JsonValue): ArrayBuilder;
+    addItems(values: current.JsonValue[]): ArrayBuilder;
+    end(): unknown;
+}
+
+/** Legacy implementation pipes a separate `PassThrough` stream for each value */
+export const implementations: Record<string, () => ValueBuilder> = {
+    current: () => current.createBuilder(),
+    'legacy (0.2.0)': () => legacy.createBuilder(),
+};
+
+export function consume(stream: Readable): Promise<number> {
+    return new Promise((resolve, reject) => {
+        let nBytes = 0;
+
+        stream.on('data', (chunk: Buffer) => (nBytes += chunk.length));
+        stream.on('end', () => resolve(nBytes));
+        stream.on('error', reject);
+    });
+}
@@ -0,0 +1,74 @@
+import { consume, implementations, ValueBuilder } from './implementations';
+
+/**
+ * Measures memory retained by builders of a document, which was not read yet.
+ * Has to be run with `--expose-gc` node option.
+ */
+const N_ITEMS = 10_000;
+
+const gc = (globalThis as { gc?: () => void }).gc;
+
+if (!gc) throw new Error('Run with `--expose-gc` node option');
+
+function buildDocument(createBuilder: () => ValueBuilder): ValueBuilder {
+    const builder = createBuilder();
+    const arrayBuilder = builder.array();
+
+    for (let i = 0; i < N_ITEMS; i++) {
+        const itemBuilder = arrayBuilder.addItem().object();
+
+        itemBuilder.addProperty('id', i);
+        itemBuilder.addProperty('tags').array().addItem('a').addItem('b').end();
+        itemBuilder.end();
+    }
+
+    arrayBuilder.end();
+
+    return builder;
+}
+
+/** Heap and memory allocated outside of it, e.g. by buffers */
+function usedMemory(): number {
+    const { heapUsed, external } = process.memoryUsage();
+
+    return heapUsed + external;
+}
+
+/** Lets pending callbacks run and collects the garbage */
+async function settle(): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 100));
+    gc!();
+}
+
+async function measure(createBuilder: () => ValueBuilder) {
+    await settle();
+
+    const memoryBefore = usedMemory();
+    const start = performance.now();
+    const builder = buildDocument(createBuilder);
+    const buildTime = performance.now() - start;
+
+    // the consumer does not read the output right away
+    await settle();
+
+    const retainedBytes = usedMemory() - memoryBefore;
+    const consumeStart = performance.now();
+    const outputBytes = await consume(builder.asStream());
+
+    return {
+        'retained memory (MB)': +(retainedBytes / 1024 ** 2).toFixed(2),
+        'output (MB)': +(outputBytes / 1024 ** 2).toFixed(2),
+        'total time (ms)': Math.round(buildTime + performance.now() - consumeStart),
+    };
+}
+
+(async () => {
+    const results: Record<string, Awaited<ReturnType<typeof measure>>> = {};
+
+    for (const [name, createBuilder] of Object.entries(implementations)) {
+        results[name] = await measure(createBuilder);
+    }
+
+    console.log(`array of ${N_ITEMS} objects created with nested builders`);
+    console.table(results);
+})();
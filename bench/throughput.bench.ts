@@ -0,0 +1,73 @@
+import { bench, describe } from 'vitest';
+
+import { consume, implementations } from './implementations';
+
+const N_ITEMS = 1_000;
+
+describe(`array of ${N_ITEMS} primitives added one by one`, () => {
+    Object.entries(implementations).forEach(([name, createBuilder]) => {
+        bench(name, async () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.array();
+
+            for (let i = 0; i < N_ITEMS; i++) arrayBuilder.addItem(i);
+            arrayBuilder.end();
+
+            await consume(builder.asStream());
+        });
+    });
+});
+
+describe(`array of ${N_ITEMS} primitives added at once`, () => {
+    const items = Array.from({ length: N_ITEMS }, (_, i) => i);
+
+    Object.entries(implementations).forEach(([name, createBuilder]) => {
+        bench(name, async () => {
+            const builder = createBuilder();
+
+            builder.array().addItems(items).end();
+
+            await consume(builder.asStream());
+        });
+    });
+});
+
+describe(`array of ${N_ITEMS} objects created with nested builders`, () => {
+    Object.entries(implementations).forEach(([name, createBuilder]) => {
+        bench(name, async () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.array();
+
+            for (let i = 0; i < N_ITEMS; i++) {
+                const itemBuilder = arrayBuilder.addItem().object();
+
+                itemBuilder.addProperty('id', i);
+                itemBuilder.addProperty('tags').array().addItem('a').addItem('b').end();
+                itemBuilder.end();
+            }
+
+            arrayBuilder.end();
+
+            await consume(builder.asStream());
+        });
+    });
+});
+
+describe(`object with ${N_ITEMS} properties resolved in reverse order`, () => {
+    Object.entries(implementations).forEach(([name, createBuilder]) => {
+        bench(name, async () => {
+            const builder = createBuilder();
+            const objectBuilder = builder.object();
+            const propertyBuilders = Array.from({ length: N_ITEMS }, (_, i) =>
+                objectBuilder.addProperty(`key${i}`),
+            );
+
+            objectBuilder.end();
+            propertyBuilders
+                .reverse()
+                .forEach((propertyBuilder, i) => propertyBuilder.primitive(i));
+
+            await consume(builder.asStream());
+        });
+    });
+});
@@ -0,0 +1,2938 @@
+import { Encoder, jsonEncoder } from './encoders';
+import { formatPath, JsonPath } from './path';
+
+export * from './encoders';
+export * from './parser';
+export * from './path';
+
+export type JsonPrimitive = null | string | number | boolean;
+export type JsonValue = JsonPrimitive | Array<JsonValue> | { [k: string]: JsonValue };
+export type JsonObject = { [k: string]: JsonValue };
+/** Values accepted by builders created with the `serializer` option, see `SerializerOptions` */
+export type SerializableValue =
+    | JsonPrimitive
+    | bigint
+    | SpecialObject
+    | Array<SerializableValue>
+    | { [k: string]: SerializableValue };
+/**
+ * Value which may not be available yet.
+ * Promises are written once resolved, async iterables (e.g. object mode `Readable`) are streamed as json arrays.
+ */
+export type JsonSource<T = JsonValue> = T | PromiseLike<T> | AsyncIterable<ItemOf<T>>;
+/**
+ * Document which parts may not be available yet, any value within it can be a `JsonSource`
+ * or a function returning the template (called once all preceding parts of the document are written).
+ */
+export type JsonTemplate<T = JsonValue> =
+    | JsonSource<T>
+    | (() => JsonTemplate<T>)
+    | (T extends ReadonlyArray<infer Item>
+          ? ReadonlyArray<JsonTemplate<Item>>
+          : T extends object
+            ? { [K in keyof T]: JsonTemplate<T[K]> }
+            : never);
+export type JsonBuilder =
+    | JsonStreamBuilder<any, any>
+    | ArrayStreamBuilder<any, any>
+    | ObjectStreamBuilder<any, any, any>
+    | StringStreamBuilder<any>
+    | SequenceStreamBuilder<any>;
+
+export interface BuilderOptions {
+    /**
+     * What happens when any of the builders fails (via `.fail()`, rejected promise or errored source).
+     * - `destroy` (default) - the output stream is destroyed with `BuilderError`
+     * - `graceful` - error marker is written at the place of failure, all open brackets are closed and the stream ends
+     */
+    onError?: 'destroy' | 'graceful';
+    /** Creates properties written in place of failure in `graceful` mode, defaults to `{ "$error": { message, path } }` */
+    errorMarker?: (error: BuilderError) => Record<string, JsonValue>;
+    /**
+     * Amount of bytes (default 16kb) that may be buffered before the consumer reads them.
+     * Above this limit, `.ready()` and `.write()` calls wait for the consumer to catch up.
+     */
+    highWaterMark?: number;
+    /**
+     * Coalesces the output into chunks of up to this many bytes (unless a single write is larger),
+     * e.g. to avoid many tiny writes to a socket. By default data is passed to the consumer as soon as it is written.
+     */
+    chunkSize?: number;
+    /** Passes coalesced data to the consumer at most this many milliseconds after it was written */
+    flushIntervalMs?: number;
+    /**
+     * Passes coalesced data to the consumer once builders wait for promises, async iterables or values provided later
+     * (e.g. via `.addItem().primitive()` call), defaults to true
+     */
+    flushWhenIdle?: boolean;
+    /**
+     * Enables pretty printing, works like the third argument of `JSON.stringify`.
+     * Either number of spaces (up to 10) or a string (up to 10 characters) used for a single level of indentation.
+     */
+    indent?: number | string;
+    /**
+     * Format of the output, json by default, see `cborEncoder` and `msgpackEncoder`.
+     * Output of binary encoders is exposed as binary strings (one character per byte) by `toString`, `.asIterable()`
+     * and `buildToString`, and as bytes by streams. Pretty printing is ignored by them.
+     */
+    encoder?: Encoder;
+    /**
+     * What happens when the same key is added to an object more than once.
+     * - `allow` (default) - all properties are written, json parsers usually keep the last one
+     * - `throw` - `DuplicateKeyError` is thrown at the call site
+     * - `skip` - subsequent properties with the same key are not written
+     */
+    duplicateKeys?: 'allow' | 'throw' | 'skip';
+    /**
+     * Subset of JSON Schema the document has to match, see `JsonSchema`.
+     * Values are validated as they are added, nested builders once they are created and ended.
+     */
+    schema?: JsonSchema;
+    /**
+     * What happens when a value added at the call site does not match the `schema`.
+     * - `throw` (default) - `SchemaValidationError` is thrown at the call site, the value is not written
+     * - `fail` - the builder fails with `SchemaValidationError`, see `onError` option
+     *
+     * Values which are not available yet (promises, async iterables) always fail the builder.
+     */
+    onInvalidValue?: 'throw' | 'fail';
+    /**
+     * Customizes conversion of values to json, see `SerializerOptions`.
+     * When set, builders accept `bigint`s, `Date`s, `Map`s, `Set`s and objects with `toJSON` method by default.
+     */
+    serializer?: SerializerOptions;
+    /**
+     * Time (in milliseconds) in which values added via child builders (e.g. `addProperty(key)`, promises)
+     * have to be complete, see `onTimeout` option. Deadlines of single builders can be set via `.withDeadline()`.
+     */
+    childTimeoutMs?: number;
+    /**
+     * What happens when a builder is not complete before its deadline.
+     * - `fail` (default) - the builder fails with `TimeoutError`, see `onError` option
+     * - `fallback` - the builder is closed, values which were not provided yet are replaced with `timeoutFallback`
+     */
+    onTimeout?: 'fail' | 'fallback';
+    /** Written in place of values not provided before the deadline in `fallback` mode, defaults to `null` */
+    timeoutFallback?: JsonValue;
+    /** Maximal depth of values, i.e. length of their json paths (`$.a[0]` is at depth 2), see `onLimitExceeded` option */
+    maxDepth?: number;
+    /**
+     * Maximal size (in bytes) of the output, see `onLimitExceeded` option.
+     * Truncation marker and closing brackets are written on top of it.
+     */
+    maxBytes?: number;
+    /** Maximal number of items of each array, see `onLimitExceeded` option */
+    maxItemsPerArray?: number;
+    /** Maximal number of properties of each object, see `onLimitExceeded` option */
+    maxPropertiesPerObject?: number;
+    /**
+     * What happens when a value added does not fit within the limits (`maxDepth`, `maxBytes` etc.).
+     * - `throw` (default) - `LimitExceededError` is thrown at the call site, the value is not written
+     * - `fail` - the builder fails with `LimitExceededError`, see `onError` option
+     * - `truncate` - truncation marker is written in place of the value, all open brackets are closed and the stream ends
+     *
+     * Values which are not available yet (promises, async iterables) fail the builder instead of throwing.
+     */
+    onLimitExceeded?: 'throw' | 'fail' | 'truncate';
+    /** Creates properties written in place of the value in `truncate` mode, defaults to `{ "$truncated": { limit, path } }` */
+    truncationMarker?: (error: LimitExceededError) => Record<string, JsonValue>;
+    /**
+     * Reports misuse of builders, enabled by default when `NODE_ENV` is `development`.
+     * Calls to ended builders throw `BuilderEndedError` (`SlotAlreadyFilledError` for values) instead of being ignored,
+     * builders which were never ended are reported once the document is garbage collected or the process exits.
+     */
+    strict?: boolean;
+    /** Called for each builder which was never ended in `strict` mode, logs a warning by default */
+    onUnendedBuilder?: (error: UnendedBuilderError) => void;
+    /** Aborts the whole document once the signal is aborted, e.g. when the request it responds to was cancelled */
+    signal?: AbortSignal;
+}
+
+/** Options capping the size of the document */
+export type BuilderLimit = 'maxDepth' | 'maxBytes' | 'maxItemsPerArray' | 'maxPropertiesPerObject';
+
+/**
+ * Conversion of values added to builders, works like `JSON.stringify` (including calls to `toJSON` methods),
+ * values are converted before schema validation.
+ */
+export interface SerializerOptions {
+    /** Works like the second argument of `JSON.stringify`, returning `undefined` skips the property */
+    replacer?: (this: unknown, key: string, value: unknown) => unknown;
+    /**
+     * How `bigint`s are written (unsupported by default, like in `JSON.stringify`).
+     * - `string` - as json string
+     * - `number` - as json number, with all digits (parsers may lose precision)
+     */
+    bigint?: 'string' | 'number';
+    /**
+     * How `Date`s are written.
+     * - `iso` (default) - as ISO string, via `toJSON`
+     * - `timestamp` - as number of milliseconds since epoch, `toJSON` is not called
+     */
+    date?: 'iso' | 'timestamp';
+    /**
+     * How `Map`s are written, after the replacer (empty objects by default, like in `JSON.stringify`).
+     * - `object` - as object, keys are converted to strings
+     * - `entries` - as array of key-value pairs
+     */
+    map?: 'object' | 'entries';
+    /** How `Set`s are written, after the replacer (empty objects by default, like in `JSON.stringify`) */
+    set?: 'array';
+}
+
+export type JsonSchemaType =
+    | 'null'
+    | 'boolean'
+    | 'integer'
+    | 'number'
+    | 'string'
+    | 'array'
+    | 'object';
+
+/**
+ * Supported subset of JSON Schema.
+ * `enum` is checked only for values added at once, contents of nested builders are not buffered.
+ */
+export interface JsonSchema {
+    type?: JsonSchemaType | ReadonlyArray<JsonSchemaType>;
+    enum?: ReadonlyArray<JsonValue>;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    properties?: { readonly [key: string]: JsonSchema };
+    required?: ReadonlyArray<string>;
+    additionalProperties?: boolean | JsonSchema;
+}
+
+export interface SequenceBuilderOptions extends Omit<BuilderOptions, 'indent'> {
+    /**
+     * Framing of the records.
+     * - `ndjson` (default) - each record is followed by a line feed (also known as JSON Lines)
+     * - `json-seq` - each record is preceded by a record separator and followed by a line feed (RFC 7464)
+     */
+    format?: 'ndjson' | 'json-seq';
+}
+
+export interface AddItemsFromOptions {
+    /** Maximal number of mappers running at once, defaults to 1 */
+    concurrency?: number;
+    /** Ends the array once all items are added */
+    end?: boolean;
+}
+
+/** Objects which are not written as they are, see `SerializerOptions` */
+type SpecialObject =
+    | Date
+    | ReadonlyMap<unknown, SerializableValue>
+    | ReadonlySet<SerializableValue>
+    | { toJSON(key: string): unknown };
+/** Object types within `T` */
+type ObjectOf<T> = Exclude<Extract<T, object>, ReadonlyArray<unknown> | SpecialObject>;
+/** Array types within `T` */
+type ArrayOf<T> = Extract<T, ReadonlyArray<unknown>>;
+/** Items of array types within `T` */
+type ItemOf<T> = ArrayOf<T> extends ReadonlyArray<infer Item> ? Item : never;
+type KeyOf<T> = Extract<keyof T, string>;
+/** Value under the `key`, optional properties cannot be `undefined` in json */
+type ValueOf<T, K extends keyof T> = Exclude<T[K], undefined>;
+type PropertiesOf<T> = { [K in KeyOf<T>]?: ValueOf<T, K> };
+/** Keys which have to be added before the object can be ended */
+type RequiredKeys<T> = {
+    [K in KeyOf<T>]-?: {} extends Pick<T, K> ? never : K;
+}[KeyOf<T>];
+/** Makes the method unavailable (via `this` parameter) if `Type` is not a part of the document */
+type AvailableFor<Type, Self> = [Type] extends [never] ? never : Self;
+
+type ResolvedBuilderOptions = Required<
+    Omit<
+        BuilderOptions,
+        | 'indent'
+        | 'serializer'
+        | 'childTimeoutMs'
+        | 'signal'
+        | 'chunkSize'
+        | 'flushIntervalMs'
+        | BuilderLimit
+    >
+> & {
+    chunkSize: number | null;
+    flushIntervalMs: number | null;
+    indent: string;
+    serializer: SerializerOptions | null;
+    childTimeoutMs: number | null;
+    signal: AbortSignal | null;
+} & Record<BuilderLimit, number | null>;
+
+/**
+ * Error with which the output stream is destroyed, points to the place where the failure occured.
+ * Base class of errors thrown by builders.
+ */
+export class BuilderError extends Error {
+    constructor(
+        /** Original error */
+        public readonly reason: unknown,
+        public readonly path: JsonPath,
+    ) {
+        super(
+            `${reason instanceof Error ? reason.message : String(reason)} (at ${formatPath(path)})`,
+        );
+        this.name = 'BuilderError';
+    }
+}
+
+/** Thrown when adding property which already exists, if `duplicateKeys` option is set to `throw` */
+export class DuplicateKeyError extends BuilderError {
+    constructor(key: string, path: JsonPath) {
+        super(`Duplicate key ${JSON.stringify(key)}`, [...path, key]);
+        this.name = 'DuplicateKeyError';
+    }
+}
+
+/** Fails the builder which was not complete before its deadline, see `onTimeout` option */
+export class TimeoutError extends BuilderError {
+    constructor(timeoutMs: number, path: JsonPath) {
+        super(`Not completed within ${timeoutMs}ms`, path);
+        this.name = 'TimeoutError';
+    }
+}
+
+/** Thrown in `strict` mode when the builder is used after it ended */
+export class BuilderEndedError extends BuilderError {
+    constructor(path: JsonPath) {
+        super('Builder has already ended', path);
+        this.name = 'BuilderEndedError';
+    }
+}
+
+/** Thrown in `strict` mode when the value of a builder is provided more than once */
+export class SlotAlreadyFilledError extends BuilderError {
+    constructor(path: JsonPath) {
+        super('Value has already been provided', path);
+        this.name = 'SlotAlreadyFilledError';
+    }
+}
+
+/** Thrown when a builder ends before its value was provided, as it would produce invalid json */
+export class EmptySlotError extends BuilderError {
+    constructor(path: JsonPath) {
+        super('Value was not provided', path);
+        this.name = 'EmptySlotError';
+    }
+}
+
+/** Reported in `strict` mode for builders which were never ended, see `onUnendedBuilder` option */
+export class UnendedBuilderError extends BuilderError {
+    constructor(path: JsonPath) {
+        super('Builder was never ended', path);
+        this.name = 'UnendedBuilderError';
+    }
+}
+
+/** Thrown (or failing the builder) when a value does not fit within the limits, see `onLimitExceeded` option */
+export class LimitExceededError extends BuilderError {
+    constructor(
+        /** Name of the exceeded option */
+        public readonly limit: BuilderLimit,
+        max: number,
+        path: JsonPath,
+    ) {
+        super(`Exceeded ${limit} of ${max}`, path);
+        this.name = 'LimitExceededError';
+    }
+}
+
+/** Thrown (or failing the builder) when a value does not match the `schema` option */
+export class SchemaValidationError extends BuilderError {
+    constructor(message: string, path: JsonPath) {
+        super(message, path);
+        this.name = 'SchemaValidationError';
+    }
+}
+
+/**
+ * Creates instance of a builder. Can be used to start emiting json chunks of primitives/arrays/objects.
+ * Optional type parameter describes the shape of the document, e.g. `createBuilder<User[]>()`.
+ */
+export function createBuilder<T = SerializableValue>(
+    options: BuilderOptions & { serializer: SerializerOptions },
+): JsonStreamBuilder<null, T>;
+export function createBuilder<T = JsonValue>(options?: BuilderOptions): JsonStreamBuilder<null, T>;
+export function createBuilder<T>(options: BuilderOptions = {}): JsonStreamBuilder<null, T> {
+    return new JsonStreamBuilder<null, T>(null, createDocument(options), []);
+}
+
+/**
+ * Creates instance of a builder emitting a sequence of json records, e.g. newline delimited json.
+ * Each record is written in a single line.
+ */
+export function createSequenceBuilder<T = SerializableValue>(
+    options: SequenceBuilderOptions & { serializer: SerializerOptions },
+): SequenceStreamBuilder<T>;
+export function createSequenceBuilder<T = JsonValue>(
+    options?: SequenceBuilderOptions,
+): SequenceStreamBuilder<T>;
+export function createSequenceBuilder<T>(
+    options: SequenceBuilderOptions = {},
+): SequenceStreamBuilder<T> {
+    const { format = 'ndjson', schema, ...builderOptions } = options;
+    // records are validated like items of an array
+    const document = createDocument(
+        schema ? { ...builderOptions, schema: { items: schema } } : builderOptions,
+    );
+
+    return new SequenceStreamBuilder<T>(document, format);
+}
+
+/**
+ * Builds the whole document synchronously, e.g. to reuse code of streaming endpoints where streaming is not needed.
+ * Throws if the document cannot be completed synchronously, e.g. when it contains promises.
+ */
+export function buildToString<T = JsonValue>(
+    build: (builder: JsonStreamBuilder<null, T>) => void,
+    options: BuilderOptions = {},
+): string {
+    const document = createDocument(options, true);
+    const builder = new JsonStreamBuilder<null, T>(null, document, []);
+
+    try {
+        build(builder);
+    } finally {
+        if (!document.output.isClosed)
+            builder.abort(new Error('Document was not completed synchronously'));
+    }
+
+    return document.output.readSync();
+}
+
+/** Collects the whole document, rejects with `BuilderError` if creation of it failed */
+export async function toString(builder: Builder<any>): Promise<string> {
+    let json = '';
+
+    for await (const chunk of builder) json += chunk;
+
+    return json;
+}
+
+/**
+ * Writes the whole document to the web stream, closing it once the document is complete.
+ * Rejects with `BuilderError` if creation of the document failed, errors of the web stream abort the builder.
+ */
+export function pipeTo(builder: Builder<any>, writable: WritableStream<Uint8Array>): Promise<void> {
+    return builder.asWebStream().pipeTo(writable);
+}
+
+function createDocument(options: BuilderOptions, isSync: boolean = false): JsonDocument {
+    const highWaterMark = options.highWaterMark ?? 16 * 1024;
+    const chunkSize = options.chunkSize ?? null;
+    const flushIntervalMs = options.flushIntervalMs ?? null;
+    const strict = options.strict ?? isDevelopment();
+    const onUnendedBuilder = options.onUnendedBuilder ?? defaultUnendedBuilderReport;
+    const encoder = options.encoder ?? jsonEncoder;
+    const document: JsonDocument = {
+        options: {
+            onError: options.onError ?? 'destroy',
+            errorMarker: options.errorMarker ?? defaultErrorMarker,
+            highWaterMark,
+            chunkSize,
+            flushIntervalMs,
+            flushWhenIdle: options.flushWhenIdle ?? true,
+            indent: encoder.isBinary ? '' : resolveIndent(options.indent ?? ''),
+            encoder,
+            duplicateKeys: options.duplicateKeys ?? 'allow',
+            schema: options.schema ?? EMPTY_SCHEMA,
+            onInvalidValue: options.onInvalidValue ?? 'throw',
+            serializer: options.serializer ?? null,
+            childTimeoutMs: options.childTimeoutMs ?? null,
+            onTimeout: options.onTimeout ?? 'fail',
+            timeoutFallback: options.timeoutFallback ?? null,
+            maxDepth: options.maxDepth ?? null,
+            maxBytes: options.maxBytes ?? null,
+            maxItemsPerArray: options.maxItemsPerArray ?? null,
+            maxPropertiesPerObject: options.maxPropertiesPerObject ?? null,
+            onLimitExceeded: options.onLimitExceeded ?? 'throw',
+            truncationMarker: options.truncationMarker ?? defaultTruncationMarker,
+            strict,
+            onUnendedBuilder,
+            signal: options.signal ?? null,
+        },
+        output: new Output(highWaterMark, chunkSize, flushIntervalMs, encoder.isBinary),
+        root: null,
+        cursor: null,
+        isFlushScheduled: false,
+        isWriting: false,
+        isSync,
+        failed: false,
+        nBytes: 0,
+        deadlines: new Set(),
+        timedOutPaths: [],
+        unended: strict ? { builders: new Set(), report: onUnendedBuilder } : null,
+        abortControllers: new Set(),
+    };
+    // pending deadlines do not matter once the document is complete
+    const clearDeadlines = () => document.deadlines.forEach(timer => clearTimeout(timer));
+    const { signal } = document.output;
+
+    document.output.closed.then(clearDeadlines, clearDeadlines);
+    signal.addEventListener(
+        'abort',
+        () => document.abortControllers.forEach(controller => controller.abort(signal.reason)),
+        { once: true },
+    );
+
+    if (document.unended) watchUnendedBuilders(document, document.unended);
+
+    return document;
+}
+
+/** Builders of a document in `strict` mode which did not end yet */
+interface UnendedBuilders {
+    /** Entry per builder, entries do not reference the builders so that the document can be garbage collected */
+    readonly builders: Set<{ readonly path: JsonPath }>;
+    readonly report: (error: UnendedBuilderError) => void;
+}
+
+/** Unended builders of documents in `strict` mode which are not complete yet */
+const incompleteDocuments = new Set<UnendedBuilders>();
+const unendedBuildersRegistry = new FinalizationRegistry(reportUnended);
+
+/** Reports unended builders once the document is garbage collected, forgets about it once it is complete */
+function watchUnendedBuilders(document: JsonDocument, unended: UnendedBuilders): void {
+    const forget = () => {
+        incompleteDocuments.delete(unended);
+        unendedBuildersRegistry.unregister(unended);
+    };
+
+    incompleteDocuments.add(unended);
+    unendedBuildersRegistry.register(document, unended, unended);
+    document.output.closed.then(forget, forget);
+}
+
+function reportUnended(unended: UnendedBuilders): void {
+    incompleteDocuments.delete(unended);
+    unended.builders.forEach(({ path }) => unended.report(new UnendedBuilderError(path)));
+    unended.builders.clear();
+}
+
+/**
+ * Reports builders which were never ended, of all incomplete documents created in `strict` mode.
+ * Called by the node entry point once the process exits, other runtimes may call it when appropriate.
+ */
+export function reportUnendedBuilders(): void {
+    incompleteDocuments.forEach(reportUnended);
+}
+
+function defaultUnendedBuilderReport(error: UnendedBuilderError): void {
+    console.warn(error);
+}
+
+function isDevelopment(): boolean {
+    const { process } = globalThis as { process?: { env?: Record<string, string | undefined> } };
+
+    return process?.env?.['NODE_ENV'] === 'development';
+}
+
+/** State shared by all builders creating a single json document */
+interface JsonDocument {
+    readonly options: ResolvedBuilderOptions;
+    /** All builders of the document eventually write to it, exposed to the user via adapters */
+    readonly output: Output;
+    /** First builder created for the document, the document is complete once it is finished */
+    root: Builder<any> | null;
+    /** Builder being written to the output, others wait in the queues of their owners */
+    cursor: Builder<any> | null;
+    /** Queued chunks are written in batches, once per microtask */
+    isFlushScheduled: boolean;
+    /** Set while queued chunks are written, chunks queued meanwhile are picked up by the same walk */
+    isWriting: boolean;
+    /** Queued chunks are written immediately, so that the document can be read synchronously */
+    readonly isSync: boolean;
+    /** Set once any of the builders failed, subsequent failures are ignored */
+    failed: boolean;
+    /** Size of all chunks queued so far, see `maxBytes` option */
+    nBytes: number;
+    /** Tracked only in `strict` mode */
+    readonly unended: UnendedBuilders | null;
+    /** Timers of builders which deadlines did not pass yet */
+    readonly deadlines: Set<ReturnType<typeof setTimeout>>;
+    /** Locations of builders which were not complete before their deadlines */
+    readonly timedOutPaths: JsonPath[];
+    /** Controllers of `.signal` of builders which were not written yet */
+    readonly abortControllers: Set<AbortController>;
+}
+
+/** Reads output of the whole document, used by adapters exposing it to the user */
+export interface OutputReader {
+    /** Resolves with all the json written so far (once there is any), `null` once the document is complete */
+    read(): Promise<string | null>;
+    /** Aborts creation of the document, e.g. once the consumer is gone. Has no effect after it is complete. */
+    cancel(reason?: unknown): void;
+    /** Resolves once the document is complete, rejects as soon as creation of it fails */
+    readonly closed: Promise<void>;
+    /** Set if chunks are binary strings (one character per byte), see `encoder` option */
+    readonly isBinary: boolean;
+}
+
+/** Exposes output of the document in a form suitable for the consumer, e.g. as a stream */
+export type OutputAdapter<T> = (reader: OutputReader) => T;
+
+/** Output of the whole document, keeps track of how much data is waiting for the consumer */
+class Output {
+    /** Amount of bytes queued by builders or written to the output, which were not read yet */
+    public pendingBytes = 0;
+    /** Chunks written by builders, waiting for the consumer */
+    private readonly chunks: string[] = [];
+    /** Chunks held back until they are coalesced, see `chunkSize` and `flushIntervalMs` options */
+    private readonly held: string[] = [];
+    private heldBytes = 0;
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+    private ended = false;
+    private error: BuilderError | null = null;
+    /** Pending `.read()` calls, notified once there is data to read */
+    private readonly readListeners: Array<(chunk: string | null, error?: Error) => void> = [];
+    /** Pending `.ready()` calls, notified once there is capacity for more data */
+    private readonly readyListeners: Array<(error?: Error) => void> = [];
+    /** Results of adapters, so that the output is consumed only once */
+    private readonly adapted = new Map<OutputAdapter<unknown>, unknown>();
+    private readonly abortController = new AbortController();
+    public readonly closed: Promise<void>;
+    private settleClosed: (error?: Error) => void = () => {};
+
+    constructor(
+        private readonly highWaterMark: number,
+        private readonly chunkSize: number | null = null,
+        private readonly flushIntervalMs: number | null = null,
+        /** Set if chunks are binary strings, see `encoder` option */
+        public readonly isBinary: boolean = false,
+    ) {
+        this.closed = new Promise((resolve, reject) => {
+            this.settleClosed = error => (error ? reject(error) : resolve());
+        });
+        // the failure is reported to the consumer by adapters, it does not have to observe it
+        this.closed.catch(() => {});
+    }
+
+    /** Set once the document is complete or creation of it failed */
+    public get isClosed(): boolean {
+        return this.ended || this.error !== null;
+    }
+
+    /** Set if written chunks are held back until they are coalesced */
+    public get isCoalescing(): boolean {
+        return this.chunkSize !== null || this.flushIntervalMs !== null;
+    }
+
+    /** Size of the chunk once written by the consumer */
+    public byteLength(chunk: string): number {
+        return this.isBinary ? chunk.length : utf8Length(chunk);
+    }
+
+    /** Aborted with `BuilderError` once the output is destroyed */
+    public get signal(): AbortSignal {
+        return this.abortController.signal;
+    }
+
+    public ready(): Promise<void> {
+        if (this.error) return Promise.reject(this.error);
+        if (this.ended || this.hasCapacity()) return Promise.resolve();
+
+        return new Promise((resolve, reject) => {
+            this.readyListeners.push(error => (error ? reject(error) : resolve()));
+        });
+    }
+
+    public read(): Promise<string | null> {
+        if (this.error) return Promise.reject(this.error);
+        if (this.chunks.length) return Promise.resolve(this.take());
+        if (this.ended) return Promise.resolve(null);
+
+        return new Promise((resolve, reject) => {
+            this.readListeners.push((chunk, error) => (error ? reject(error) : resolve(chunk)));
+        });
+    }
+
+    /** Takes all the json written so far, throws if creation of the document failed */
+    public readSync(): string {
+        if (this.error) throw this.error;
+
+        this.flush();
+
+        return this.take();
+    }
+
+    /** Writes chunk queued by builders */
+    public write(chunk: string): void {
+        if (this.isClosed) return;
+        if (!this.isCoalescing) return this.release(chunk);
+
+        const size = this.byteLength(chunk);
+        const chunkSize = this.chunkSize ?? Infinity;
+
+        if (this.heldBytes + size > chunkSize) this.flush();
+
+        this.held.push(chunk);
+        this.heldBytes += size;
+
+        // held data cannot count towards `highWaterMark`, as the consumer would never catch up
+        if (this.heldBytes >= chunkSize || !this.hasCapacity()) this.flush();
+        else if (this.flushIntervalMs !== null && !this.flushTimer) {
+            this.flushTimer = setTimeout(() => this.flush(), this.flushIntervalMs);
+        }
+    }
+
+    /** Passes held chunks to the consumer right away */
+    public flush(): void {
+        this.clearFlushTimer();
+
+        if (!this.held.length) return;
+
+        const chunk = this.held.join('');
+
+        this.held.length = 0;
+        this.heldBytes = 0;
+        this.release(chunk);
+    }
+
+    public end(): void {
+        if (this.isClosed) return;
+
+        this.flush();
+        this.ended = true;
+        this.readListeners.splice(0).forEach(listener => listener(null));
+        this.notifyReadyListeners();
+        this.settleClosed();
+    }
+
+    public destroy(error: BuilderError): void {
+        if (this.isClosed) return;
+
+        this.error = error;
+        this.abortController.abort(error);
+        this.clearFlushTimer();
+        this.chunks.length = 0;
+        this.held.length = 0;
+        this.readListeners.splice(0).forEach(listener => listener(null, error));
+        this.notifyReadyListeners(error);
+        this.settleClosed(error);
+    }
+
+    public adapt<T>(adapter: OutputAdapter<T>, reader: OutputReader): T {
+        if (!this.adapted.has(adapter)) this.adapted.set(adapter, adapter(reader));
+
+        return this.adapted.get(adapter) as T;
+    }
+
+    private release(chunk: string): void {
+        this.chunks.push(chunk);
+        this.readListeners.shift()?.(this.take());
+    }
+
+    private clearFlushTimer(): void {
+        if (!this.flushTimer) return;
+
+        clearTimeout(this.flushTimer);
+        this.flushTimer = null;
+    }
+
+    private take(): string {
+        const chunk = this.chunks.join('');
+
+        this.chunks.length = 0;
+        this.pendingBytes -= this.byteLength(chunk);
+
+        if (this.hasCapacity()) this.notifyReadyListeners();
+
+        return chunk;
+    }
+
+    private hasCapacity(): boolean {
+        return this.pendingBytes < this.highWaterMark;
+    }
+
+    private notifyReadyListeners(error?: Error) {
+        this.readyListeners.splice(0).forEach(listener => listener(error));
+    }
+}
+
+/**
+ * Base class, manages the queueing and writing to the output.
+ * Builders form a tree, each of them queues raw json chunks and child builders in order of calls.
+ * Only the builder pointed by `cursor` is written, once it finishes the writing continues in its owner.
+ */
+export abstract class Builder<Parent extends Builder<any> | null> {
+    /** Raw json chunks (adjacent ones are merged) and child builders, waiting to be written in order */
+    private readonly queue: Array<string | Builder<any>> = [];
+    /** Builder which queue contains this one, `null` for the root and builders which output is discarded */
+    private owner: Builder<any> | null = null;
+    /** Once the queue is drained, and the value set to true, the builder is finished */
+    protected endScheduled = false;
+    /** Set by `.unordered()`, children are queued once they are complete instead of in order of calls */
+    protected isUnordered = false;
+    /** Children of unordered builder which are not complete yet, with chunks which should precede them */
+    private pendingChildren: Array<{ child: Builder<any>; prefix: () => string }> = [];
+    /** Chunk ending the builder, held back until all pending children are queued */
+    private closing: (() => string) | null = null;
+    /** Part of the `schema` option describing the value of this builder, resolved once needed */
+    private resolvedSchema: JsonSchema | null = null;
+    /** Timer of `.withDeadline()`, cleared once the builder is written */
+    private deadline: ReturnType<typeof setTimeout> | null = null;
+    /** Set once the builder was finished by `.terminate()`, subsequent calls are ignored even in `strict` mode */
+    private isTerminated = false;
+    /** Entry of the builder in unended builders of the document, tracked in `strict` mode */
+    private readonly unendedEntry: { readonly path: JsonPath } | null = null;
+    /** Controller of `.signal`, created once the signal is needed */
+    private abortController: AbortController | null = null;
+    /** Set once the builder and all its descendants are written to the output */
+    private isWritten = false;
+    /** Promises and async iterables providing contents of the builder, which did not settle yet */
+    private pendingSources = 0;
+    /** Set until the chunk opening the builder is queued, nothing is written before that */
+    private isOpeningDeferred = false;
+    /** Called once writing reaches the builder, see `.onceReached()` */
+    private onReached: (() => void) | null = null;
+
+    constructor(
+        protected readonly parent: Parent,
+        protected readonly document: JsonDocument,
+        /** Location of the value created by this builder */
+        public readonly path: JsonPath,
+    ) {
+        if (!this.document.root) {
+            this.document.root = this.document.cursor = this;
+
+            if (this.document.options.signal) this.abortOn(this.document.options.signal);
+        }
+
+        if (this.document.unended) {
+            this.unendedEntry = { path };
+            this.document.unended.builders.add(this.unendedEntry);
+        }
+    }
+
+    /**
+     * Output of the whole document exposed by the `adapter`, e.g. as a stream of some runtime.
+     * Subsequent calls with the same adapter return the same result.
+     */
+    public asOutput<T>(adapter: OutputAdapter<T>): T {
+        const { output, root } = this.document;
+
+        return output.adapt(adapter, {
+            read: () => output.read(),
+            closed: output.closed,
+            isBinary: output.isBinary,
+            cancel: reason => {
+                if (!output.isClosed)
+                    root?.abort(reason ?? new Error('Output stream was cancelled'));
+            },
+        });
+    }
+
+    /**
+     * Output of the whole document as web stream, e.g. for `new Response(...)`.
+     * Cancelling the web stream aborts creation of the document.
+     */
+    public asWebStream(): ReadableStream<Uint8Array> {
+        return this.asOutput(toWebStream);
+    }
+
+    /**
+     * Output of the whole document as json chunks (binary strings for binary encoders), for `for await` loops.
+     * Breaking out of the loop aborts creation of the document.
+     */
+    public asIterable(): AsyncIterable<string> {
+        return this.asOutput(toAsyncIterable);
+    }
+
+    /** Builders can be consumed directly in `for await` loops, see `.asIterable()` */
+    public [Symbol.asyncIterator](): AsyncIterator<string> {
+        return this.asIterable()[Symbol.asyncIterator]();
+    }
+
+    /**
+     * Resolves once the amount of data waiting for the consumer drops below `highWaterMark`.
+     * Awaiting it between writes keeps memory usage constant regardless of how slowly the output is read.
+     * Rejects if the output stream got destroyed.
+     */
+    public ready(): Promise<void> {
+        return this.document.output.ready();
+    }
+
+    /**
+     * Sets time (in milliseconds) in which the builder and all its descendants have to be complete,
+     * otherwise it is handled according to `onTimeout` option. Replaces the previous deadline of the builder.
+     */
+    public withDeadline(timeoutMs: number): this {
+        this.clearDeadline();
+
+        const timer = setTimeout(() => {
+            this.clearDeadline();
+            this.expire(timeoutMs);
+        }, timeoutMs);
+
+        this.deadline = timer;
+        this.document.deadlines.add(timer);
+
+        return this;
+    }
+
+    /**
+     * Aborted once the output is destroyed (e.g. the client disconnected, or the builder was aborted),
+     * or once the builder is terminated after failure or timeout, see `onError` and `onTimeout` options.
+     * Producers of the value may pass it e.g. to `fetch`, so that they stop once the value is not needed anymore.
+     * It is never aborted after the builder is written.
+     */
+    public get signal(): AbortSignal {
+        if (!this.abortController) {
+            const controller = (this.abortController = new AbortController());
+            const outputSignal = this.document.output.signal;
+
+            if (this.isTerminated) controller.abort();
+            // written builder is complete, so its signal is never aborted
+            else if (this.isWritten) return controller.signal;
+            else if (outputSignal.aborted) controller.abort(outputSignal.reason);
+            else this.document.abortControllers.add(controller);
+        }
+
+        return this.abortController.signal;
+    }
+
+    /** Format of the output, see `encoder` option */
+    public get encoder(): Encoder {
+        return this.document.options.encoder;
+    }
+
+    /** Locations of builders (of the whole document) which were not complete before their deadlines */
+    public get timedOutPaths(): ReadonlyArray<JsonPath> {
+        return this.document.timedOutPaths;
+    }
+
+    /**
+     * Passes all the data written so far to the consumer right away,
+     * regardless of `chunkSize` and `flushIntervalMs` options.
+     */
+    public flush(): void {
+        this.writeQueued();
+        this.document.output.flush();
+    }
+
+    /** Destroys the output stream with `BuilderError`, regardless of `onError` option */
+    public abort(error: unknown): void {
+        this.handleError(error, 'destroy');
+    }
+
+    /** Fails creation of the json, handling the error according to `onError` option */
+    public fail(error: unknown): void {
+        this.handleError(error, this.document.options.onError);
+    }
+
+    /** Part of the `schema` option describing the value of this builder */
+    protected get schema(): JsonSchema {
+        return (this.resolvedSchema ??= resolveSchema(this.document.options.schema, this.path));
+    }
+
+    /**
+     * Handles result of schema validation according to `onInvalidValue` option.
+     * Returns false if the value should not be written.
+     */
+    protected checkSchema(error: SchemaValidationError | null): boolean {
+        if (!error) return true;
+        if (this.document.options.onInvalidValue === 'throw') throw error;
+
+        this.fail(error);
+
+        return false;
+    }
+
+    /**
+     * Handles exceeded limit according to `onLimitExceeded` option.
+     * Returns false if the value should not be written.
+     */
+    protected checkLimit(error: LimitExceededError | null): boolean {
+        if (!error) return true;
+
+        const { onLimitExceeded, truncationMarker } = this.document.options;
+
+        if (onLimitExceeded === 'throw') throw error;
+        if (onLimitExceeded === 'fail') this.fail(error);
+        else this.handleError(error, 'graceful', () => truncationMarker(error));
+
+        return false;
+    }
+
+    /**
+     * Queues chunk opening the builder. Length prefixed encoders need the size of the value,
+     * so the chunk is queued (see `.queueOpening()`) and the builder is written only once it ends.
+     */
+    protected open(createOpening: (size: number | null) => string): void {
+        if (this.encoder.isLengthPrefixed) this.isOpeningDeferred = true;
+        else this.append(createOpening(null));
+    }
+
+    /** Queues deferred chunk opening the builder before all its contents, see `.open()` */
+    protected queueOpening(createOpening: (size: number | null) => string, size: number): void {
+        if (!this.isOpeningDeferred) return;
+
+        const opening = createOpening(size);
+        const first = this.queue[0];
+
+        this.isOpeningDeferred = false;
+
+        if (typeof first === 'string') this.queue[0] = opening + first;
+        else this.queue.unshift(opening);
+
+        this.countBytes(opening);
+    }
+
+    /**
+     * Replaces contents of the builder which opening is deferred (see `.open()`), so nothing of it was written yet,
+     * with the `data` chunk and ends the builder. Returns false if it is not possible anymore.
+     */
+    protected replaceContents(data: string): boolean {
+        if (!this.isOpeningDeferred || this.endScheduled) return false;
+
+        const { output } = this.document;
+
+        this.queue.forEach(chunk => {
+            if (typeof chunk !== 'string') return;
+
+            const nBytes = output.byteLength(chunk);
+
+            output.pendingBytes -= nBytes;
+            this.document.nBytes -= nBytes;
+        });
+        this.queue.length = 0;
+        this.isOpeningDeferred = false;
+        this.append(data).scheduleEnd();
+
+        return true;
+    }
+
+    /**
+     * Runs the `callback` once all preceding parts of the document are written. Members of unordered builders
+     * are written once complete instead, so their callbacks run right away.
+     */
+    protected onceReached(callback: () => void): void {
+        if (this.document.cursor === this || !this.owner || this.owner.isUnordered) callback();
+        else this.onReached = callback;
+    }
+
+    /** Queues raw json chunk */
+    protected append(data: string): this {
+        if (this.endScheduled || !data) return this;
+
+        this.enqueue(data);
+
+        return this.scheduleFlush();
+    }
+
+    /**
+     * Queues child builder preceded by the `prefix` chunk, all subsequent chunks are written once the child finishes.
+     * Children of unordered builder are queued once they are complete, the prefix is created at that time.
+     */
+    protected addChildBuilder(child: Builder<any>, prefix: () => string = () => ''): this {
+        if (this.endScheduled) return this;
+
+        child.owner = this;
+
+        if (this.isUnordered) {
+            this.pendingChildren.push({ child, prefix });
+        } else {
+            this.enqueue(prefix());
+            this.queue.push(child);
+        }
+
+        const { childTimeoutMs } = this.document.options;
+
+        // builders with the same path (e.g. object builder of a property) share the deadline of the value
+        if (childTimeoutMs !== null && child.path.length > this.path.length) {
+            child.withDeadline(childTimeoutMs);
+        }
+
+        return this.scheduleFlush();
+    }
+
+    /** Finishes the builder, the `closing` chunk is queued after all its children (see `.unordered()`) */
+    protected scheduleEnd(closing: () => string = () => ''): this {
+        if (!this.endScheduled) {
+            if (this.unendedEntry) this.document.unended?.builders.delete(this.unendedEntry);
+
+            this.endScheduled = true;
+            this.closing = closing;
+            this.queueCompleteChildren();
+        }
+
+        return this.scheduleFlush();
+    }
+
+    /** In `strict` mode throws if the builder already ended, otherwise calls to ended builders are ignored */
+    protected assertNotEnded(): void {
+        if (this.endScheduled && !this.isTerminated && this.document.options.strict) {
+            throw this.endedError();
+        }
+    }
+
+    protected endedError(): BuilderError {
+        return new BuilderEndedError(this.path);
+    }
+
+    /** Writes error marker as the contents of the builder, returns false if it is not possible anymore */
+    protected writeErrorMarker(_marker: Record<string, JsonValue>): boolean {
+        return false;
+    }
+
+    /**
+     * Serializes error marker written as the next member of the builder, right after the member which failed
+     * but cannot hold the marker itself (e.g. partially written string). Null if it is not possible anymore.
+     */
+    protected serializeErrorMarker(_marker: Record<string, JsonValue>): string | null {
+        return null;
+    }
+
+    /** Error marker written right after this builder, as the next member of its parent */
+    protected errorMarkerAfter(marker: Record<string, JsonValue>): string | null {
+        return this.parent?.serializeErrorMarker(marker) ?? null;
+    }
+
+    /**
+     * Finishes the builder and all its descendants immediately, so that they produce valid json.
+     * Values which were not provided yet are replaced with the `fallback`.
+     */
+    protected terminate(fallback: JsonValue = null): void {
+        if (this.isWritten) return;
+
+        this.isTerminated = true;
+        this.releaseSignal()?.abort();
+        this.queue.forEach(child => typeof child !== 'string' && child.terminate(fallback));
+        this.pendingChildren.forEach(({ child }) => child.terminate(fallback));
+        this.scheduleEnd();
+    }
+
+    /**
+     * Converts value added under the `key` to plain json according to `serializer` option,
+     * `undefined` means the value should be skipped. Values have to be converted before validation and serialization.
+     */
+    protected toJsonValue(value: unknown, key: string | number): unknown {
+        const { serializer } = this.document.options;
+
+        return serializer
+            ? toPlainJson({ [key]: value }, String(key), value, serializer, [])
+            : value;
+    }
+
+    /** Converts values added at once to plain json, see `.toJsonValue()` */
+    protected toJsonItems(
+        values: ReadonlyArray<unknown>,
+        firstIndex: number,
+    ): ReadonlyArray<unknown> {
+        if (!this.document.options.serializer) return values;
+
+        // like in `JSON.stringify`, skipped items are written as `null`
+        return values.map((value, index) => this.toJsonValue(value, firstIndex + index) ?? null);
+    }
+
+    /** Serializes the value placed at given depth, indenting it according to `indent` option */
+    protected serialize(data: unknown, depth: number = this.path.length): string {
+        const { indent, serializer, encoder } = this.document.options;
+
+        return this.indent(encoder.value(data, indent, serializer !== null), depth);
+    }
+
+    /**
+     * Serializes contents of array/object placed at depth of this builder,
+     * without surrounding brackets and line breaks preceding them.
+     */
+    protected serializeMembers(data: ReadonlyArray<unknown> | Record<string, unknown>): string {
+        const { indent, serializer, encoder } = this.document.options;
+
+        return this.indent(encoder.members(data, indent, serializer !== null), this.path.length);
+    }
+
+    /** Shifts pretty printed value to given depth */
+    private indent(json: string, depth: number): string {
+        if (!this.document.options.indent || depth === 0) return json;
+
+        const lineBreak = this.lineBreak(depth);
+
+        // replacer function, as the indentation may contain special replacement patterns like `$$`
+        return json.replace(/\n/g, () => lineBreak);
+    }
+
+    /** Line break followed by indentation of given depth, empty when pretty printing is disabled */
+    protected lineBreak(depth: number): string {
+        const { indent } = this.document.options;
+
+        return indent && `\n${indent.repeat(depth)}`;
+    }
+
+    private scheduleFlush(): this {
+        if (this.document.isSync) {
+            this.writeQueued();
+            return this;
+        }
+
+        if (this.document.isFlushScheduled) return this;
+
+        this.document.isFlushScheduled = true;
+        queueMicrotask(() => this.writeQueued());
+
+        return this;
+    }
+
+    /**
+     * Writes queued chunks, walking the tree from the `cursor`, until reaching a builder
+     * which has nothing to write yet. All chunks written at once are merged into a single one.
+     */
+    private writeQueued(): void {
+        const { output, options } = this.document;
+        let builder: Builder<any> | null = this.document.cursor;
+        let chunk = '';
+
+        this.document.isFlushScheduled = false;
+
+        if (!builder || output.isClosed || this.document.isWriting) return;
+
+        this.document.isWriting = true;
+
+        while (builder) {
+            const next: string | Builder<any> | undefined = builder.queue[0];
+
+            if (builder.isOpeningDeferred) {
+                break;
+            } else if (typeof next === 'string') {
+                chunk += next;
+                builder.queue.shift();
+            } else if (next) {
+                builder = next;
+
+                const { onReached } = builder;
+
+                builder.onReached = null;
+                onReached?.();
+            } else if (builder.queueCompleteChildren()) {
+                // children of unordered builder completed in the meantime
+                continue;
+            } else if (builder.endScheduled && builder.pendingChildren.length === 0) {
+                builder.clearDeadline();
+                builder.releaseSignal();
+                builder.isWritten = true;
+                // finished builder is always the first item in the queue of its owner
+                builder = builder.owner;
+                builder?.queue.shift();
+            } else {
+                break;
+            }
+        }
+
+        this.document.cursor = builder;
+        this.document.isWriting = false;
+
+        if (chunk) output.write(chunk);
+        if (!builder) output.end();
+        else if (
+            options.flushWhenIdle &&
+            output.isCoalescing &&
+            (builder.isAwaitingValue || builder.isAwaitingSource)
+        ) {
+            output.flush();
+        }
+    }
+
+    /** Set if the builder, or the one enclosing it, waits for promises or async iterables providing its contents */
+    private get isAwaitingSource(): boolean {
+        for (let builder: Builder<any> | null = this; builder; builder = builder.owner) {
+            if (builder.pendingSources > 0 || builder.pendingChildren.length > 0) return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Set if the builder has nothing to write until its value is provided, e.g. the one created by `.addItem()`.
+     * Builders writing members of arrays and objects are not idle, more members may be added right away.
+     */
+    protected get isAwaitingValue(): boolean {
+        return false;
+    }
+
+    /** Keeps track of the source providing contents of the builder, see `flushWhenIdle` option */
+    protected awaitSource<S>(source: PromiseLike<S>): Promise<S> {
+        const settled = Promise.resolve(source);
+        const onSettled = () => void this.pendingSources--;
+
+        this.pendingSources++;
+        settled.then(onSettled, onSettled);
+
+        return settled;
+    }
+
+    /** Set once the builder and all its descendants ended, even if they were not written yet */
+    private get isComplete(): boolean {
+        return (
+            this.endScheduled &&
+            this.queue.every(child => typeof child === 'string' || child.isComplete) &&
+            this.pendingChildren.every(({ child }) => child.isComplete)
+        );
+    }
+
+    /**
+     * Moves complete children of unordered builder to the queue, followed by the closing chunk once all of them are.
+     * Returns true if anything was queued.
+     */
+    private queueCompleteChildren(): boolean {
+        if (this.pendingChildren.length === 0 && !this.closing) return false;
+
+        const queueLength = this.queue.length;
+        const completeChildren = this.pendingChildren.filter(({ child }) => child.isComplete);
+
+        if (completeChildren.length > 0) {
+            this.pendingChildren = this.pendingChildren.filter(
+                pending => !completeChildren.includes(pending),
+            );
+            completeChildren.forEach(({ child, prefix }) => {
+                this.enqueue(prefix());
+                this.queue.push(child);
+            });
+        }
+
+        if (this.closing && this.pendingChildren.length === 0) {
+            this.enqueue(this.closing());
+            this.closing = null;
+        }
+
+        return this.queue.length > queueLength;
+    }
+
+    /** Queues raw json chunk, merging it with the preceding one */
+    private enqueue(data: string): void {
+        if (!data) return;
+
+        const last = this.queue[this.queue.length - 1];
+
+        if (typeof last === 'string') this.queue[this.queue.length - 1] = last + data;
+        else this.queue.push(data);
+
+        this.countBytes(data);
+    }
+
+    /** Counts queued chunk towards `highWaterMark` and `maxBytes` */
+    private countBytes(data: string): void {
+        const nBytes = this.document.output.byteLength(data);
+
+        this.document.output.pendingBytes += nBytes;
+        this.document.nBytes += nBytes;
+    }
+
+    private expire(timeoutMs: number): void {
+        const { output, options, timedOutPaths } = this.document;
+
+        if (this.isComplete || output.isClosed) return;
+
+        timedOutPaths.push(this.path);
+
+        if (options.onTimeout === 'fail') this.fail(new TimeoutError(timeoutMs, this.path));
+        else this.terminate(options.timeoutFallback);
+    }
+
+    /** Stops aborting `.signal` once the output is destroyed, returns its controller if it was created */
+    private releaseSignal(): AbortController | null {
+        if (this.abortController) this.document.abortControllers.delete(this.abortController);
+
+        return this.abortController;
+    }
+
+    /** Aborts the whole document once the external `signal` is aborted */
+    private abortOn(signal: AbortSignal): void {
+        if (signal.aborted) return this.abort(signal.reason);
+
+        const onAbort = () => this.abort(signal.reason);
+        const removeListener = () => signal.removeEventListener('abort', onAbort);
+
+        signal.addEventListener('abort', onAbort, { once: true });
+        this.document.output.closed.then(removeListener, removeListener);
+    }
+
+    private clearDeadline(): void {
+        if (!this.deadline) return;
+
+        clearTimeout(this.deadline);
+        this.document.deadlines.delete(this.deadline);
+        this.deadline = null;
+    }
+
+    /** Set if the builder is not written, as it was added to already ended one (ignored call outside `strict` mode) */
+    private get isDetached(): boolean {
+        let builder: Builder<any> = this;
+
+        while (builder.owner) builder = builder.owner;
+
+        return builder !== this.document.root;
+    }
+
+    private handleError(
+        error: unknown,
+        mode: ResolvedBuilderOptions['onError'],
+        createMarker: (error: BuilderError) => Record<string, JsonValue> = this.document.options
+            .errorMarker,
+    ): void {
+        const root = this.document.root;
+
+        // output of builders added to already ended ones is discarded, so are their failures
+        if (this.document.failed || !root || this.isDetached) return;
+
+        this.document.failed = true;
+
+        const builderError =
+            error instanceof BuilderError ? error : new BuilderError(error, this.path);
+
+        if (mode === 'destroy') {
+            this.document.output.destroy(builderError);
+            return;
+        }
+
+        const marker = createMarker(builderError);
+        let target: Builder<any> | null = this;
+
+        // ended builders cannot hold the marker anymore, try placing it in the enclosing one
+        while (target && !target.writeErrorMarker(marker)) target = target.parent;
+
+        root.terminate();
+    }
+}
+
+/**
+ * Default builder, wrapper around all builders for all types.
+ * Methods accept only values matching `T`, e.g. `.array()` cannot be called unless `T` includes an array type.
+ */
+export class JsonStreamBuilder<
+    Parent extends Builder<any> | null,
+    T = JsonValue,
+> extends Builder<Parent> {
+    /** Set once the value is provided via promise or function, it ends the builder once available */
+    private isValuePending = false;
+
+    /** Pushes primitive value to stream immediately */
+    public primitive(data: Extract<T, JsonPrimitive>): Parent {
+        this.assertNotEnded();
+
+        const value = this.ownJsonValue(data);
+
+        if (this.acceptValue(value)) this.value(value);
+
+        return this.parent;
+    }
+
+    /** Pushes data to stream immediately */
+    public object(data: ObjectOf<T>): this;
+    /**
+     * Creates a child builder for objects, which properties can be added any time.
+     * Until the child object is finished (via `.end()` call), all other calls are queued.
+     */
+    public object(
+        this: AvailableFor<ObjectOf<T>, JsonStreamBuilder<Parent, T>>,
+    ): ObjectStreamBuilder<Parent, ObjectOf<T>>;
+    public object(data?: ObjectOf<T>): this | ObjectStreamBuilder<Parent, ObjectOf<T>> {
+        this.assertNotEnded();
+
+        if (data) return this.writeValue(data);
+
+        return this.objectBuilder();
+    }
+
+    /** Pushes data to stream immediately */
+    public array(data: ArrayOf<T>): this;
+    /**
+     * Creates a child builder for array, which items can be added any time.
+     * Until the child array is finished (via `.end()` call), all other calls are queued.
+     */
+    public array(
+        this: AvailableFor<ArrayOf<T>, JsonStreamBuilder<Parent, T>>,
+    ): ArrayStreamBuilder<Parent, ItemOf<T>>;
+    public array(data?: ArrayOf<T>): this | ArrayStreamBuilder<Parent, ItemOf<T>> {
+        this.assertNotEnded();
+
+        if (data) return this.writeValue(data);
+
+        return this.arrayBuilder();
+    }
+
+    /**
+     * Creates a child builder for string, which contents can be written chunk by chunk.
+     * Until the child string is finished (via `.end()` call), all other calls are queued.
+     */
+    public string(
+        this: AvailableFor<Extract<T, string>, JsonStreamBuilder<Parent, T>>,
+    ): StringStreamBuilder<Parent> {
+        this.assertNotEnded();
+
+        return this.stringBuilder();
+    }
+
+    /**
+     * Writes binary data (e.g. non object mode `Readable`) as base64 encoded string, chunk by chunk.
+     * Errors of the source fail the builder.
+     */
+    public base64(
+        this: AvailableFor<Extract<T, string>, JsonStreamBuilder<Parent, T>>,
+        source: AsyncIterable<Uint8Array>,
+    ): Parent;
+    public base64(source: AsyncIterable<Uint8Array>): Parent {
+        this.assertNotEnded();
+
+        const builder = this.stringBuilder();
+
+        this.awaitSource(
+            (async () => {
+                // base64 encodes data in groups of 3 bytes, the remainder is carried over to the next chunk
+                let remainder = new Uint8Array(0);
+
+                for await (const chunk of source) {
+                    const data = concatBytes(remainder, chunk);
+                    const nEncodableBytes = data.length - (data.length % 3);
+
+                    remainder = data.subarray(nEncodableBytes);
+                    await builder.write(encodeBase64(data.subarray(0, nEncodableBytes)));
+                }
+
+                await builder.write(encodeBase64(remainder));
+            })(),
+        ).then(
+            () => builder.end(),
+            err => builder.fail(err),
+        );
+
+        return this.parent;
+    }
+
+    /**
+     * Writes value which may not be available yet. Promises are awaited,
+     * async iterables (including object mode `Readable`s) are streamed item by item as json array.
+     * Objects and arrays containing such values anywhere within them (see `JsonTemplate`) are written
+     * via child builders, static parts immediately and the lazy ones once available.
+     * Until the value is fully written, all other calls are queued.
+     * Rejections and source errors fail the builder.
+     */
+    public from(source: JsonTemplate<T>): Parent {
+        this.assertNotEnded();
+
+        if (typeof source === 'function') {
+            this.isValuePending = true;
+            this.onceReached(() => {
+                // e.g. terminated after failure
+                if (this.endScheduled) return;
+
+                try {
+                    this.from((source as () => JsonTemplate<T>)());
+                } catch (error) {
+                    // there is no call site to throw at
+                    this.fail(error);
+                }
+            });
+
+            return this.parent;
+        }
+
+        if (isPromiseLike(source)) {
+            this.isValuePending = true;
+            this.awaitSource(source)
+                .then(data => this.ownJsonValue(data))
+                .then(value => {
+                    // there is no call site to throw at, invalid value always fails the builder
+                    const error = validateValue(value, this.schema, this.path);
+
+                    return error ? this.fail(error) : this.value(value);
+                })
+                // including values exceeding the limits
+                .then(undefined, err => this.fail(err));
+
+            return this.parent;
+        }
+
+        if (isAsyncIterable(source)) {
+            const builder = this.arrayBuilder<unknown>();
+
+            this.awaitSource(
+                (async () => {
+                    for await (const item of source) await builder.write(item);
+                })(),
+            ).then(
+                () => builder.end(),
+                err => builder.fail(err),
+            );
+
+            return this.parent;
+        }
+
+        if (hasLazyParts(source)) return this.template(source as object);
+
+        const value = this.ownJsonValue(source);
+
+        if (this.acceptValue(value)) this.value(value);
+
+        return this.parent;
+    }
+
+    /**
+     * Finalizes the value, pending one (e.g. provided via `.from()`) ends the builder once available.
+     * In `strict` mode throws `EmptySlotError` if the value was not provided at all.
+     */
+    public end(): Parent {
+        this.assertNotEnded();
+
+        if (this.isValuePending) return this.parent;
+
+        // value skipped after failed validation is discarded anyway
+        if (!this.endScheduled && !this.document.failed && this.document.options.strict) {
+            throw new EmptySlotError(this.path);
+        }
+
+        this.scheduleEnd();
+
+        return this.parent;
+    }
+
+    protected override endedError(): BuilderError {
+        return new SlotAlreadyFilledError(this.path);
+    }
+
+    protected override get isAwaitingValue(): boolean {
+        return !this.endScheduled;
+    }
+
+    protected override writeErrorMarker(marker: Record<string, JsonValue>): boolean {
+        if (this.endScheduled) return false;
+
+        this.value(marker);
+
+        return true;
+    }
+
+    protected override terminate(fallback: JsonValue = null): void {
+        // value was not provided yet (e.g. pending promise), `null` is the best we can do by default
+        // fallback is written regardless of the limits, like closing brackets
+        if (!this.endScheduled) this.append(this.serialize(fallback)).scheduleEnd();
+
+        super.terminate(fallback);
+    }
+
+    private objectBuilder<O>(): ObjectStreamBuilder<Parent, O> {
+        this.checkSchema(validateType('object', this.schema, this.path));
+
+        const builder = new ObjectStreamBuilder<Parent, O>(this.parent, this.document, this.path);
+        this.addChildBuilder(builder).scheduleEnd();
+
+        return builder;
+    }
+
+    private arrayBuilder<Item>(): ArrayStreamBuilder<Parent, Item> {
+        this.checkSchema(validateType('array', this.schema, this.path));
+
+        const builder = new ArrayStreamBuilder<Parent, Item>(this.parent, this.document, this.path);
+        this.addChildBuilder(builder).scheduleEnd();
+
+        return builder;
+    }
+
+    private stringBuilder(): StringStreamBuilder<Parent> {
+        this.checkSchema(validateType('string', this.schema, this.path));
+
+        const builder = new StringStreamBuilder<Parent>(this.parent, this.document, this.path);
+        this.addChildBuilder(builder).scheduleEnd();
+
+        return builder;
+    }
+
+    /** Writes static parts of the template at once, the lazy ones via child builders */
+    private template(template: object): Parent {
+        if (Array.isArray(template)) {
+            const builder = this.arrayBuilder<unknown>();
+
+            template.forEach(item =>
+                // like in `JSON.stringify`, `undefined` items are written as `null`
+                hasLazyParts(item) ? builder.addItem().from(item) : builder.addItem(item ?? null),
+            );
+
+            return builder.end();
+        }
+
+        const builder = this.objectBuilder<Record<string, unknown>>();
+
+        Object.entries(template).forEach(([key, value]) => {
+            if (hasLazyParts(value)) builder.addProperty(key).from(value);
+            else if (value !== undefined) builder.addProperty(key, value);
+        });
+
+        return builder.end();
+    }
+
+    /** Converts value of this builder to plain json, see `.toJsonValue()` */
+    private ownJsonValue(data: unknown): unknown {
+        // like in `JSON.stringify`, skipped value is written as `null`
+        return this.toJsonValue(data, this.path[this.path.length - 1] ?? '') ?? null;
+    }
+
+    private writeValue(data: unknown): this {
+        const value = this.ownJsonValue(data);
+
+        return this.acceptValue(value) ? this.value(value) : this;
+    }
+
+    private acceptValue(data: unknown): boolean {
+        return this.checkSchema(validateValue(data, this.schema, this.path));
+    }
+
+    private value(data: unknown): this {
+        const json = this.serialize(data);
+
+        if (!this.checkLimit(validateLimits(data, json, this.path, this.document))) return this;
+
+        return this.append(json).scheduleEnd();
+    }
+}
+
+/**
+ * Builder for all json objects.
+ * Properties of objects can be added asynchronously.
+ * Building the object should be finalized via `.end()` call.
+ * Only keys of `T` (with matching values) can be added, required keys not added yet are tracked by `Missing`,
+ * which prevents calling `.end()` too early (when the calls are chained).
+ */
+export class ObjectStreamBuilder<
+    Parent extends Builder<any> | null,
+    T = JsonObject,
+    Missing extends string = RequiredKeys<T>,
+> extends Builder<Parent> {
+    /** Type-level only, makes builders with different missing keys incompatible */
+    private declare readonly missingKeys: Missing;
+    private firstPropertyInserted: boolean = false;
+    private propertiesCount: number = 0;
+    /** Keys added so far, tracked only when duplicate keys are not allowed or the schema requires some keys */
+    private readonly keys = new Set<string>();
+
+    constructor(parent: Parent, document: JsonDocument, path: JsonPath) {
+        super(parent, document, path);
+        this.open(size => this.encoder.openObject(size));
+    }
+
+    /**
+     * Creates a child builder which result will be stored under specified `key`.
+     * Subsequent calls to `addProperty` are queued, and data is writted in order.
+     */
+    public addProperty<K extends KeyOf<T>>(
+        key: K,
+    ): JsonStreamBuilder<ObjectStreamBuilder<Parent, T, Exclude<Missing, K>>, ValueOf<T, K>>;
+    /** Adds value under specified `key` immediately */
+    public addProperty<K extends KeyOf<T>>(
+        key: K,
+        value: ValueOf<T, K>,
+    ): ObjectStreamBuilder<Parent, T, Exclude<Missing, K>>;
+    /** Adds value under specified `key` once it resolves, see `JsonStreamBuilder.from` */
+    public addProperty<K extends KeyOf<T>>(
+        key: K,
+        value: JsonSource<ValueOf<T, K>>,
+    ): ObjectStreamBuilder<Parent, T, Exclude<Missing, K>>;
+    public addProperty(
+        key: string,
+        data?: unknown,
+    ): JsonStreamBuilder<any, any> | ObjectStreamBuilder<Parent, T, any> {
+        this.assertNotEnded();
+
+        const value = data === undefined || isLazySource(data) ? data : this.toJsonValue(data, key);
+
+        // like in `JSON.stringify`, property skipped by the serializer is not written
+        if (value === undefined && data !== undefined) return this;
+
+        const isBuilder = value === undefined || isLazySource(value);
+        const isValid =
+            this.checkSchema(
+                isBuilder
+                    ? validateKey(key, this.schema, this.path)
+                    : validateProperty(key, value, this.schema, this.path),
+            ) &&
+            this.checkLimit(
+                validateMembersCount(
+                    this.propertiesCount + 1,
+                    'maxPropertiesPerObject',
+                    this.path,
+                    this.document,
+                    key,
+                ) ??
+                    // values added at once are validated once serialized
+                    (isBuilder
+                        ? validateLimits(undefined, '', this.path, this.document, key)
+                        : null),
+            );
+        const isSkipped = !isValid || this.acceptKeys([key]).length === 0;
+
+        if (value === undefined && isSkipped) {
+            // builder is returned anyway for the sake of chaining, its output is discarded
+            return new JsonStreamBuilder<this, unknown>(this, this.document, [...this.path, key]);
+        }
+
+        if (value === undefined) return this.pushPropertyBuilder(key);
+        if (isSkipped) return ignoreSkipped(this, value);
+        if (isLazySource(value)) return this.pushPropertyBuilder(key).from(value);
+
+        return this.pushProperty(key, value);
+    }
+
+    /**
+     * Adds value under specified `key`, resolves once the consumer catches up with reading the output.
+     * See `.ready()`.
+     */
+    public write<K extends KeyOf<T>>(key: K, value: JsonSource<ValueOf<T, K>>): Promise<void> {
+        this.addProperty(key, value);
+
+        return this.ready();
+    }
+
+    /** Adds multiple key-value pairs immediately */
+    public addProperties<P extends PropertiesOf<T>>(
+        properties: P & Record<Exclude<keyof P, KeyOf<T>>, never>,
+    ): ObjectStreamBuilder<Parent, T, Exclude<Missing, keyof P>>;
+    public addProperties(data: Record<string, unknown>): ObjectStreamBuilder<Parent, T, any> {
+        this.assertNotEnded();
+
+        const properties = this.toJsonProperties(data);
+        const error = findError(Object.entries(properties), ([key, value]) =>
+            validateProperty(key, value, this.schema, this.path),
+        );
+
+        if (!this.checkSchema(error)) return this;
+
+        const keys = Object.keys(properties);
+        const count = this.propertiesCount + keys.length;
+
+        if (
+            !this.checkLimit(
+                validateMembersCount(count, 'maxPropertiesPerObject', this.path, this.document),
+            )
+        ) {
+            return this;
+        }
+
+        const acceptedKeys = new Set(this.acceptKeys(keys));
+
+        if (acceptedKeys.size === keys.length) return this.pushProperties(properties);
+
+        const entries = Object.entries(properties).filter(([key]) => acceptedKeys.has(key));
+
+        return this.pushProperties(Object.fromEntries(entries));
+    }
+
+    /**
+     * Properties added from now on are written in order of completion instead of order of calls,
+     * so that slow values do not hold back the ones which are ready. Values added via child builders
+     * (e.g. promises, `addProperty(key)`) are written at once, only after they are complete.
+     */
+    public unordered(): this {
+        this.isUnordered = true;
+
+        return this;
+    }
+
+    /** Finalizes the creation of json object. Waits for all subproperties to be resolved. */
+    public end(this: ObjectStreamBuilder<Parent, T, never>): Parent {
+        this.assertNotEnded();
+
+        const error = validateRequired(this.keys, this.schema, this.path);
+
+        return this.checkSchema(error) ? this.close() : this.parent;
+    }
+
+    protected override writeErrorMarker(marker: Record<string, JsonValue>): boolean {
+        if (this.endScheduled) return false;
+
+        this.pushProperties(marker);
+
+        return true;
+    }
+
+    protected override serializeErrorMarker(marker: Record<string, JsonValue>): string | null {
+        // size of the object is written already
+        if (this.endScheduled && this.encoder.isLengthPrefixed) return null;
+
+        this.propertiesCount += Object.keys(marker).length;
+
+        return this.nextSeparator() + this.serializeMembers(marker);
+    }
+
+    protected override terminate(fallback: JsonValue = null): void {
+        if (!this.endScheduled) this.close();
+
+        super.terminate(fallback);
+    }
+
+    private close(): Parent {
+        this.queueOpening(size => this.encoder.openObject(size), this.propertiesCount);
+        this.scheduleEnd(() => {
+            const lineBreak = this.firstPropertyInserted ? this.lineBreak(this.path.length) : '';
+
+            return lineBreak + this.encoder.closeObject();
+        });
+
+        return this.parent;
+    }
+
+    /** Converts properties added at once to plain json, see `.toJsonValue()` */
+    private toJsonProperties(properties: Record<string, unknown>): Record<string, unknown> {
+        if (!this.document.options.serializer) return properties;
+
+        const entries = Object.entries(properties)
+            .map(([key, value]) => [key, this.toJsonValue(value, key)])
+            .filter(([, value]) => value !== undefined);
+
+        return Object.fromEntries(entries);
+    }
+
+    private pushPropertyBuilder(key: string): JsonStreamBuilder<this, unknown> {
+        const builder = new JsonStreamBuilder<this, unknown>(this, this.document, [
+            ...this.path,
+            key,
+        ]);
+
+        this.propertiesCount++;
+        this.addChildBuilder(builder, () => this.nextSeparator() + this.serializeKey(key));
+
+        return builder;
+    }
+
+    private pushProperty(key: string, value: unknown): this {
+        const rawValue = this.serializeKey(key) + this.serialize(value, this.path.length + 1);
+        const error = validateLimits(value, rawValue, this.path, this.document, key);
+
+        if (!this.checkLimit(error)) return this;
+
+        this.propertiesCount++;
+        this.append(this.nextSeparator() + rawValue);
+
+        return this;
+    }
+
+    private pushProperties(properties: Record<string, unknown>): this {
+        // like in `JSON.stringify`, properties without values are not written
+        const nProperties = Object.values(properties).filter(value => value !== undefined).length;
+
+        if (nProperties === 0) return this;
+
+        // serialize all values at once, without the brackets
+        const rawValue = this.serializeMembers(properties);
+
+        if (!this.checkLimit(validateLimits(properties, rawValue, this.path, this.document))) {
+            return this;
+        }
+
+        this.propertiesCount += nProperties;
+        this.append(this.nextSeparator() + rawValue);
+
+        return this;
+    }
+
+    /** Comma (if needed) and a line break preceding the property, called once the property is queued */
+    private nextSeparator(): string {
+        const comma = this.firstPropertyInserted ? this.encoder.separator : '';
+
+        this.firstPropertyInserted = true;
+
+        return comma + this.lineBreak(this.path.length + 1);
+    }
+
+    private serializeKey(key: string): string {
+        return this.encoder.key(key, this.document.options.indent);
+    }
+
+    /**
+     * Registers keys of properties which are about to be added, according to `duplicateKeys` option.
+     * Returns keys which should be written.
+     */
+    private acceptKeys(keys: string[]): string[] {
+        const { duplicateKeys } = this.document.options;
+
+        if (duplicateKeys === 'allow' && !this.schema.required) return keys;
+
+        const duplicate = keys.find(key => this.keys.has(key));
+
+        if (duplicate !== undefined && duplicateKeys === 'throw') {
+            throw new DuplicateKeyError(duplicate, this.path);
+        }
+
+        const acceptedKeys =
+            duplicateKeys === 'skip' ? keys.filter(key => !this.keys.has(key)) : keys;
+        acceptedKeys.forEach(key => this.keys.add(key));
+
+        return acceptedKeys;
+    }
+}
+
+/**
+ * Builder for json arrays, only items matching `Item` can be added.
+ * Building the array should be finalized via `.end()` call.
+ */
+export class ArrayStreamBuilder<
+    Parent extends Builder<any> | null,
+    Item = JsonValue,
+> extends Builder<Parent> {
+    /** Number of items added so far, in unordered array it may differ from the number of items queued */
+    private itemsCount: number = 0;
+    private firstItemInserted: boolean = false;
+
+    constructor(parent: Parent, document: JsonDocument, path: JsonPath) {
+        super(parent, document, path);
+        this.open(size => this.encoder.openArray(size));
+    }
+
+    /**
+     * Creates a child builder which is responsible for creating the array item.
+     * Subsequent calls to `addItem` are queued, and data is writted in order.
+     */
+    public addItem(): JsonStreamBuilder<this, Item>;
+    /** Adds array item immediately */
+    public addItem(value: Item): this;
+    /** Adds array item once it resolves, see `JsonStreamBuilder.from` */
+    public addItem(value: JsonSource<Item>): this;
+    public addItem(data?: unknown): JsonStreamBuilder<this, any> | this {
+        this.assertNotEnded();
+
+        const value =
+            data === undefined || isLazySource(data)
+                ? data
+                : this.toJsonItems([data], this.itemsCount)[0];
+        const isBuilder = value === undefined || isLazySource(value);
+        const isValid =
+            this.checkSchema(
+                validateItemsCount(this.itemsCount + 1, this.schema, this.path, false) ??
+                    validateItems([value], this.itemsCount, this.schema, this.path),
+            ) &&
+            this.checkLimit(
+                validateMembersCount(
+                    this.itemsCount + 1,
+                    'maxItemsPerArray',
+                    this.path,
+                    this.document,
+                    this.itemsCount,
+                ) ??
+                    // values added at once are validated once serialized
+                    (isBuilder
+                        ? validateLimits(undefined, '', this.path, this.document, this.itemsCount)
+                        : null),
+            );
+
+        if (!isValid && value === undefined) {
+            // builder is returned anyway for the sake of chaining, its output is discarded
+            const path = [...this.path, this.itemsCount];
+
+            return new JsonStreamBuilder<this, unknown>(this, this.document, path);
+        }
+
+        if (!isValid) return ignoreSkipped(this, value);
+        if (isLazySource(value)) return this.pushItemBuilder().from(value);
+        if (value !== undefined) return this.pushItem(value);
+
+        return this.pushItemBuilder();
+    }
+
+    /** Adds array item, resolves once the consumer catches up with reading the output. See `.ready()`. */
+    public write(value: JsonSource<Item>): Promise<void> {
+        this.addItem(value);
+
+        return this.ready();
+    }
+
+    /**
+     * Adds items created by the `mapper` from values of the `source`, up to `concurrency` mappers run at once.
+     * Items are written in order of the source (see `.unordered()`), failures of the mapper or the source fail the builder.
+     * Like `.write()`, waits for the consumer before taking more values from the source. Resolves once all items are added,
+     * or once adding them stopped as the output stream got destroyed (failures are handled according to `onError` option).
+     */
+    public async addItemsFrom<S>(
+        source: Iterable<S> | AsyncIterable<S>,
+        mapper: (value: S, index: number) => Item | PromiseLike<Item>,
+        options: AddItemsFromOptions = {},
+    ): Promise<void> {
+        this.assertNotEnded();
+
+        const { concurrency = 1, end = false } = options;
+        const running = new Set<Promise<void>>();
+        let index = 0;
+
+        try {
+            for await (const value of source) {
+                // items cannot be added anymore, e.g. the document failed
+                if (this.endScheduled) break;
+
+                const valueIndex = index++;
+                const item = Promise.resolve().then(() => mapper(value, valueIndex));
+                const task: Promise<void> = item.then(
+                    () => void running.delete(task),
+                    () => void running.delete(task),
+                );
+
+                running.add(task);
+                this.addItem(item);
+
+                if (running.size >= concurrency) await Promise.race(running);
+                await this.ready();
+            }
+        } catch (error) {
+            // failure of the source, destroyed output is handled already
+            this.fail(error);
+        }
+
+        await Promise.all(running);
+
+        if (end) this.end();
+
+        // failure is handled by the builder already, callers do not have to observe it
+        return this.ready().then(undefined, () => {});
+    }
+
+    /** Adds multiple array items immediately */
+    public addItems(items: ReadonlyArray<Item>): this {
+        this.assertNotEnded();
+
+        const values = this.toJsonItems(items, this.itemsCount);
+        const count = this.itemsCount + values.length;
+        const isValid =
+            this.checkSchema(
+                validateItemsCount(count, this.schema, this.path, false) ??
+                    validateItems(values, this.itemsCount, this.schema, this.path),
+            ) &&
+            this.checkLimit(
+                validateMembersCount(count, 'maxItemsPerArray', this.path, this.document),
+            );
+
+        return isValid ? this.pushItems(values) : this;
+    }
+
+    /**
+     * Items added from now on are written in order of completion instead of order of calls,
+     * so that slow items do not hold back the ones which are ready. Items added via child builders
+     * (e.g. promises, `addItem()`) are written at once, only after they are complete.
+     * Json paths (e.g. in errors) keep indexes in order of calls.
+     */
+    public unordered(): this {
+        this.isUnordered = true;
+
+        return this;
+    }
+
+    /** Finalizes the creation of the array. Waits for all items created via child builders to be resolved. */
+    public end(): Parent {
+        this.assertNotEnded();
+
+        const error = validateItemsCount(this.itemsCount, this.schema, this.path, true);
+
+        return this.checkSchema(error) ? this.close() : this.parent;
+    }
+
+    protected override writeErrorMarker(marker: Record<string, JsonValue>): boolean {
+        if (this.endScheduled) return false;
+
+        this.pushItem(marker);
+
+        return true;
+    }
+
+    protected override serializeErrorMarker(marker: Record<string, JsonValue>): string | null {
+        // size of the array is written already
+        if (this.endScheduled && this.encoder.isLengthPrefixed) return null;
+
+        this.itemsCount++;
+
+        return this.nextSeparator() + this.serialize(marker, this.path.length + 1);
+    }
+
+    protected override terminate(fallback: JsonValue = null): void {
+        if (!this.endScheduled) this.close();
+
+        super.terminate(fallback);
+    }
+
+    private close(): Parent {
+        this.queueOpening(size => this.encoder.openArray(size), this.itemsCount);
+        this.scheduleEnd(() => {
+            const lineBreak = this.firstItemInserted ? this.lineBreak(this.path.length) : '';
+
+            return lineBreak + this.encoder.closeArray();
+        });
+
+        return this.parent;
+    }
+
+    private pushItemBuilder(): JsonStreamBuilder<this, unknown> {
+        // items are counted to keep track of their json paths
+        const path = [...this.path, this.itemsCount++];
+        const builder = new JsonStreamBuilder<this, unknown>(this, this.document, path);
+
+        this.addChildBuilder(builder, () => this.nextSeparator());
+
+        return builder;
+    }
+
+    private pushItem(value: unknown): this {
+        const rawValue = this.serialize(value, this.path.length + 1);
+        const error = validateLimits(value, rawValue, this.path, this.document, this.itemsCount);
+
+        if (!this.checkLimit(error)) return this;
+
+        this.itemsCount++;
+        this.append(this.nextSeparator() + rawValue);
+
+        return this;
+    }
+
+    private pushItems(values: ReadonlyArray<unknown>): this {
+        if (values.length === 0) return this;
+
+        // serialize all values at once, without the brackets
+        const rawValue = this.serializeMembers(values);
+
+        if (!this.checkLimit(validateLimits(values, rawValue, this.path, this.document)))
+            return this;
+
+        this.itemsCount += values.length;
+        this.append(this.nextSeparator() + rawValue);
+
+        return this;
+    }
+
+    /** Comma (if needed) and a line break preceding the item, called once the item is queued */
+    private nextSeparator(): string {
+        const comma = this.firstItemInserted ? this.encoder.separator : '';
+
+        this.firstItemInserted = true;
+
+        return comma + this.lineBreak(this.path.length + 1);
+    }
+}
+
+/**
+ * Builder for json strings, which contents are written chunk by chunk, e.g. large texts.
+ * Building the string should be finalized via `.end()` call.
+ */
+export class StringStreamBuilder<Parent extends Builder<any> | null> extends Builder<Parent> {
+    /** High surrogate ending the last chunk, held back until it can be written together with the low one */
+    private pendingHighSurrogate: string = '';
+    /** Number of code points written so far */
+    private length: number = 0;
+    /** Size of the encoded chunks written so far, tracked for length prefixed encoders */
+    private nBytes: number = 0;
+
+    constructor(parent: Parent, document: JsonDocument, path: JsonPath) {
+        super(parent, document, path);
+        this.open(size => this.encoder.openString(size));
+    }
+
+    /**
+     * Appends the chunk to the string, escaping it as needed.
+     * Resolves once the consumer catches up with reading the output. See `.ready()`.
+     */
+    public write(chunk: string): Promise<void> {
+        this.assertNotEnded();
+
+        const text = this.pendingHighSurrogate + chunk;
+        const isSplitSurrogatePair = isHighSurrogate(text.charCodeAt(text.length - 1));
+        const completeText = isSplitSurrogatePair ? text.slice(0, -1) : text;
+        const length = this.length + countCodePoints(completeText);
+
+        if (!this.checkSchema(validateLength(length, this.schema, this.path, false))) {
+            return this.ready();
+        }
+
+        const encodedText = this.encoder.stringChunk(completeText);
+
+        if (!this.checkLimit(validateLimits(undefined, encodedText, this.path, this.document))) {
+            return this.ready();
+        }
+
+        this.length = length;
+        this.nBytes += encodedText.length;
+        this.pendingHighSurrogate = isSplitSurrogatePair ? text.slice(-1) : '';
+
+        this.append(encodedText);
+
+        return this.ready();
+    }
+
+    /** Finalizes the creation of the string. */
+    public end(): Parent {
+        this.assertNotEnded();
+
+        const length = this.length + this.pendingHighSurrogate.length;
+        const error = validateLength(length, this.schema, this.path, true);
+
+        return this.checkSchema(error) ? this.close() : this.parent;
+    }
+
+    /**
+     * Strings cannot hold the marker, it is written right after the string (closed as is) instead.
+     * Strings of length prefixed encoders are written once complete, so the marker can replace them if needed.
+     */
+    protected override writeErrorMarker(marker: Record<string, JsonValue>): boolean {
+        if (this.endScheduled) return false;
+
+        const rawMarker = this.errorMarkerAfter(marker);
+
+        if (rawMarker === null) return this.replaceContents(this.serialize(marker));
+
+        this.close(rawMarker);
+
+        return true;
+    }
+
+    protected override terminate(fallback: JsonValue = null): void {
+        if (!this.endScheduled) this.close();
+
+        super.terminate(fallback);
+    }
+
+    /** Closes the string, followed by the `suffix` chunk */
+    private close(suffix: string = ''): Parent {
+        // high surrogate without the low one can only be written as escape sequence (or replacement character)
+        const rest = this.encoder.stringChunk(this.pendingHighSurrogate);
+
+        this.queueOpening(size => this.encoder.openString(size), this.nBytes + rest.length);
+        this.append(rest + this.encoder.closeString() + suffix);
+        this.scheduleEnd();
+
+        return this.parent;
+    }
+}
+
+/**
+ * Builder for sequences of json records (e.g. newline delimited json).
+ * Records can be added asynchronously, they are written in order of `addItem` calls.
+ * Building the sequence should be finalized via `.end()` call.
+ */
+export class SequenceStreamBuilder<T = JsonValue> extends Builder<null> {
+    private itemsCount: number = 0;
+
+    constructor(
+        document: JsonDocument,
+        private readonly format: Required<SequenceBuilderOptions>['format'],
+    ) {
+        super(null, document, []);
+    }
+
+    /**
+     * Creates a child builder which is responsible for creating the record.
+     * Subsequent calls to `addItem` are queued, and data is writted in order.
+     */
+    public addItem(): JsonStreamBuilder<this, T>;
+    /** Adds record immediately */
+    public addItem(value: T): this;
+    /** Adds record once it resolves, see `JsonStreamBuilder.from` */
+    public addItem(value: JsonSource<T>): this;
+    public addItem(data?: unknown): JsonStreamBuilder<this, any> | this {
+        this.assertNotEnded();
+
+        const value =
+            data === undefined || isLazySource(data)
+                ? data
+                : this.toJsonItems([data], this.itemsCount)[0];
+
+        if (!this.checkSchema(validateItems([value], this.itemsCount, this.schema, this.path))) {
+            return ignoreSkipped(this, value);
+        }
+
+        if (value === undefined || isLazySource(value)) {
+            // records added at once are validated once serialized
+            const error = validateLimits(undefined, '', this.path, this.document, this.itemsCount);
+
+            if (!this.checkLimit(error)) return ignoreSkipped(this, value);
+        }
+
+        if (isLazySource(value)) return this.pushItemBuilder().from(value);
+        if (value !== undefined) return this.pushItems([value]);
+
+        return this.pushItemBuilder();
+    }
+
+    /** Adds record, resolves once the consumer catches up with reading the output. See `.ready()`. */
+    public write(value: JsonSource<T>): Promise<void> {
+        this.addItem(value);
+
+        return this.ready();
+    }
+
+    /** Adds multiple records immediately */
+    public addItems(records: ReadonlyArray<T>): this {
+        this.assertNotEnded();
+
+        const values = this.toJsonItems(records, this.itemsCount);
+        const error = validateItems(values, this.itemsCount, this.schema, this.path);
+
+        return this.checkSchema(error) ? this.pushItems(values) : this;
+    }
+
+    /** Finalizes the creation of the sequence. Waits for all records created via child builders to be resolved. */
+    public end(): null {
+        this.assertNotEnded();
+        this.scheduleEnd();
+
+        return this.parent;
+    }
+
+    protected override writeErrorMarker(marker: Record<string, JsonValue>): boolean {
+        if (this.endScheduled) return false;
+
+        this.pushItems([marker]);
+
+        return true;
+    }
+
+    protected override serializeErrorMarker(marker: Record<string, JsonValue>): string | null {
+        this.itemsCount++;
+
+        // the failed record is followed by the suffix already
+        return this.recordSuffix() + this.recordPrefix() + this.serialize(marker);
+    }
+
+    private pushItemBuilder(): JsonStreamBuilder<this, unknown> {
+        const path = [this.itemsCount++];
+        const builder = new JsonStreamBuilder<this, unknown>(this, this.document, path);
+
+        this.append(this.recordPrefix());
+        this.addChildBuilder(builder);
+        this.append(this.recordSuffix());
+
+        return builder;
+    }
+
+    private pushItems(values: ReadonlyArray<unknown>): this {
+        if (values.length === 0) return this;
+
+        const prefix = this.recordPrefix();
+        const suffix = this.recordSuffix();
+        const rawValue = values.map(value => prefix + this.serialize(value) + suffix).join('');
+
+        if (!this.checkLimit(validateLimits(values, rawValue, this.path, this.document)))
+            return this;
+
+        this.itemsCount += values.length;
+        this.append(rawValue);
+
+        return this;
+    }
+
+    /** Records of binary encoders are simply concatenated, as their values are self-delimiting */
+    private recordPrefix(): string {
+        return this.format === 'json-seq' && !this.encoder.isBinary ? RECORD_SEPARATOR : '';
+    }
+
+    private recordSuffix(): string {
+        return this.encoder.isBinary ? '' : '\n';
+    }
+}
+
+/** Precedes each record of `json-seq` format */
+const RECORD_SEPARATOR = '\x1e';
+/** Schema without any constraints, used when there is none for the value */
+const EMPTY_SCHEMA: JsonSchema = {};
+
+function resolveIndent(indent: number | string): string {
+    return typeof indent === 'number'
+        ? ' '.repeat(Math.max(0, Math.min(10, indent)))
+        : indent.slice(0, 10);
+}
+
+function defaultErrorMarker(error: BuilderError): Record<string, JsonValue> {
+    const message = error.reason instanceof Error ? error.reason.message : String(error.reason);
+
+    return { $error: { message, path: formatPath(error.path) } };
+}
+
+function defaultTruncationMarker(error: LimitExceededError): Record<string, JsonValue> {
+    return { $truncated: { limit: error.limit, path: formatPath(error.path) } };
+}
+
+function isHighSurrogate(charCode: number): boolean {
+    return charCode >= 0xd800 && charCode <= 0xdbff;
+}
+
+function isLowSurrogate(charCode: number): boolean {
+    return charCode >= 0xdc00 && charCode <= 0xdfff;
+}
+
+/** Length of the string as defined by JSON Schema, surrogate pairs count as a single character */
+function countCodePoints(text: string): number {
+    let count = text.length;
+
+    for (let i = 1; i < text.length; i++) {
+        if (isLowSurrogate(text.charCodeAt(i)) && isHighSurrogate(text.charCodeAt(i - 1))) count--;
+    }
+
+    return count;
+}
+
+function hasOwnProperty(object: object, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/** Finds part of the schema describing the value at given path */
+function resolveSchema(schema: JsonSchema, path: JsonPath): JsonSchema {
+    return path.reduce<JsonSchema>(
+        (acc, segment) =>
+            typeof segment === 'number' ? acc.items ?? EMPTY_SCHEMA : propertySchema(acc, segment),
+        schema,
+    );
+}
+
+function propertySchema(schema: JsonSchema, key: string): JsonSchema {
+    const { properties = {}, additionalProperties } = schema;
+
+    if (hasOwnProperty(properties, key)) return properties[key] ?? EMPTY_SCHEMA;
+
+    return typeof additionalProperties === 'object' ? additionalProperties : EMPTY_SCHEMA;
+}
+
+function schemaTypeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    if (typeof value === 'bigint') return 'integer';
+
+    return typeof value;
+}
+
+function validateValue(
+    value: unknown,
+    schema: JsonSchema,
+    path: JsonPath,
+): SchemaValidationError | null {
+    if (schema === EMPTY_SCHEMA) return null;
+
+    const typeError = validateType(schemaTypeOf(value), schema, path);
+
+    if (typeError) return typeError;
+
+    if (schema.enum && !schema.enum.some(option => isJsonEqual(option, value))) {
+        return new SchemaValidationError(`Expected one of ${JSON.stringify(schema.enum)}`, path);
+    }
+
+    if (typeof value === 'number' || typeof value === 'bigint') {
+        return validateRange(value, schema, path);
+    }
+
+    if (typeof value === 'string')
+        return validateLength(countCodePoints(value), schema, path, true);
+
+    if (Array.isArray(value)) {
+        return (
+            validateItemsCount(value.length, schema, path, true) ??
+            findError(value, (item, index) =>
+                validateValue(item, schema.items ?? EMPTY_SCHEMA, [...path, index]),
+            )
+        );
+    }
+
+    if (typeof value === 'object' && value !== null) {
+        const entries = Object.entries(value);
+
+        return (
+            validateRequired(new Set(Object.keys(value)), schema, path) ??
+            findError(entries, ([key, property]) => validateProperty(key, property, schema, path))
+        );
+    }
+
+    return null;
+}
+
+function validateType(
+    type: string,
+    schema: JsonSchema,
+    path: JsonPath,
+): SchemaValidationError | null {
+    if (schema.type === undefined) return null;
+
+    const expected: ReadonlyArray<string> =
+        typeof schema.type === 'string' ? [schema.type] : schema.type;
+    // integers are numbers as well
+    const isValid = expected.includes(type) || (type === 'integer' && expected.includes('number'));
+
+    return isValid
+        ? null
+        : new SchemaValidationError(`Expected ${expected.join(' or ')}, got ${type}`, path);
+}
+
+function validateRange(
+    value: number | bigint,
+    schema: JsonSchema,
+    path: JsonPath,
+): SchemaValidationError | null {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+        return new SchemaValidationError(`Expected value >= ${schema.minimum}, got ${value}`, path);
+    }
+
+    if (schema.maximum !== undefined && value > schema.maximum) {
+        return new SchemaValidationError(`Expected value <= ${schema.maximum}, got ${value}`, path);
+    }
+
+    return null;
+}
+
+/** Validates length of the string, minimum can be checked only once the string is complete */
+function validateLength(
+    length: number,
+    schema: JsonSchema,
+    path: JsonPath,
+    isComplete: boolean,
+): SchemaValidationError | null {
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+        return new SchemaValidationError(`Expected at most ${schema.maxLength} characters`, path);
+    }
+
+    if (isComplete && schema.minLength !== undefined && length < schema.minLength) {
+        return new SchemaValidationError(`Expected at least ${schema.minLength} characters`, path);
+    }
+
+    return null;
+}
+
+/** Validates number of array items, minimum can be checked only once the array is complete */
+function validateItemsCount(
+    count: number,
+    schema: JsonSchema,
+    path: JsonPath,
+    isComplete: boolean,
+): SchemaValidationError | null {
+    if (schema.maxItems !== undefined && count > schema.maxItems) {
+        return new SchemaValidationError(`Expected at most ${schema.maxItems} items`, path);
+    }
+
+    if (isComplete && schema.minItems !== undefined && count < schema.minItems) {
+        return new SchemaValidationError(`Expected at least ${schema.minItems} items`, path);
+    }
+
+    return null;
+}
+
+/**
+ * Validates number of members of array or object at `path`, after adding new ones.
+ * The `key` (or index) points to the member being added, if there is a single one.
+ */
+function validateMembersCount(
+    count: number,
+    limit: 'maxItemsPerArray' | 'maxPropertiesPerObject',
+    path: JsonPath,
+    document: JsonDocument,
+    key?: string | number,
+): LimitExceededError | null {
+    const max = document.options[limit];
+
+    return max !== null && count > max
+        ? new LimitExceededError(limit, max, memberPath(path, key))
+        : null;
+}
+
+/**
+ * Validates value about to be written as `json` against `maxDepth` and `maxBytes` options.
+ * The value is placed at `path`, or under the `key` of the array/object at `path`.
+ * Contents of child builders (`undefined` value) are validated once they are written.
+ */
+function validateLimits(
+    value: unknown,
+    json: string,
+    path: JsonPath,
+    document: JsonDocument,
+    key?: string | number,
+): LimitExceededError | null {
+    const { maxDepth, maxBytes } = document.options;
+    const depth = key === undefined ? path.length : path.length + 1;
+
+    // markers written once the document failed do not count
+    if (document.failed) return null;
+
+    if (maxDepth !== null && depth + nestingDepth(value) > maxDepth) {
+        return new LimitExceededError('maxDepth', maxDepth, memberPath(path, key));
+    }
+
+    if (maxBytes !== null && document.nBytes + document.output.byteLength(json) > maxBytes) {
+        return new LimitExceededError('maxBytes', maxBytes, memberPath(path, key));
+    }
+
+    return null;
+}
+
+/** Path of the member under `key`, created only when needed as values are added very often */
+function memberPath(path: JsonPath, key: string | number | undefined): JsonPath {
+    return key === undefined ? path : [...path, key];
+}
+
+/** Depth of the deepest value nested in arrays and objects, 0 for primitives and empty ones */
+function nestingDepth(value: unknown): number {
+    if (typeof value !== 'object' || value === null) return 0;
+
+    return Object.values(value).reduce<number>(
+        (depth, item) => Math.max(depth, 1 + nestingDepth(item)),
+        0,
+    );
+}
+
+/** Validates items about to be added to array, values which are not available yet are skipped */
+function validateItems(
+    values: ReadonlyArray<unknown>,
+    firstIndex: number,
+    schema: JsonSchema,
+    path: JsonPath,
+): SchemaValidationError | null {
+    const { items } = schema;
+
+    if (!items) return null;
+
+    return findError(values, (value, index) =>
+        value === undefined || isLazySource(value)
+            ? null
+            : validateValue(value, items, [...path, firstIndex + index]),
+    );
+}
+
+function validateKey(
+    key: string,
+    schema: JsonSchema,
+    path: JsonPath,
+): SchemaValidationError | null {
+    const isAllowed =
+        schema.additionalProperties !== false || hasOwnProperty(schema.properties ?? {}, key);
+
+    return isAllowed
+        ? null
+        : new SchemaValidationError(`Unexpected property ${JSON.stringify(key)}`, [...path, key]);
+}
+
+function validateProperty(
+    key: string,
+    value: unknown,
+    schema: JsonSchema,
+    path: JsonPath,
+): SchemaValidationError | null {
+    return (
+        validateKey(key, schema, path) ??
+        validateValue(value, propertySchema(schema, key), [...path, key])
+    );
+}
+
+function validateRequired(
+    keys: ReadonlySet<string>,
+    schema: JsonSchema,
+    path: JsonPath,
+): SchemaValidationError | null {
+    const missingKey = schema.required?.find(key => !keys.has(key));
+
+    return missingKey === undefined
+        ? null
+        : new SchemaValidationError(
+              `Missing required property ${JSON.stringify(missingKey)}`,
+              path,
+          );
+}
+
+function findError<T>(
+    values: ReadonlyArray<T>,
+    validate: (value: T, index: number) => SchemaValidationError | null,
+): SchemaValidationError | null {
+    for (let i = 0; i < values.length; i++) {
+        const error = validate(values[i] as T, i);
+
+        if (error) return error;
+    }
+
+    return null;
+}
+
+/** Compares json values structurally, order of object keys does not matter */
+function isJsonEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const keys = Object.keys(a);
+
+    return (
+        keys.length === Object.keys(b).length &&
+        keys.every(
+            key =>
+                hasOwnProperty(b, key) &&
+                isJsonEqual(
+                    (a as Record<string, unknown>)[key],
+                    (b as Record<string, unknown>)[key],
+                ),
+        )
+    );
+}
+
+function isPromiseLike(source: unknown): source is PromiseLike<unknown> {
+    return typeof source === 'object' && source !== null && 'then' in source;
+}
+
+function isAsyncIterable(source: unknown): source is AsyncIterable<unknown> {
+    return typeof source === 'object' && source !== null && Symbol.asyncIterator in source;
+}
+
+/**
+ * Converts the value under `key` of the `holder` to plain json, the same way as `JSON.stringify` does.
+ * Returns `undefined` if the value should be skipped, `bigint`s which should be written as numbers are kept.
+ */
+function toPlainJson(
+    holder: object,
+    key: string,
+    value: unknown,
+    serializer: SerializerOptions,
+    ancestors: object[],
+): unknown {
+    if (value instanceof Date && serializer.date === 'timestamp') value = value.getTime();
+
+    const toJSON = (value as { toJSON?: unknown } | null | undefined)?.toJSON;
+
+    if (typeof toJSON === 'function') value = toJSON.call(value, key);
+    if (serializer.replacer) value = serializer.replacer.call(holder, key, value);
+
+    if (typeof value === 'bigint') {
+        if (!serializer.bigint)
+            throw new TypeError('Cannot serialize bigint, see `serializer.bigint` option');
+
+        return serializer.bigint === 'string' ? String(value) : value;
+    }
+
+    if (value instanceof Map && serializer.map) {
+        value = serializer.map === 'entries' ? Array.from(value) : Object.fromEntries(value);
+    }
+
+    if (value instanceof Set && serializer.set) value = Array.from(value);
+    if (typeof value === 'function' || typeof value === 'symbol') return undefined;
+    if (typeof value !== 'object' || value === null) return value;
+    if (ancestors.includes(value)) throw new TypeError('Cannot serialize circular structure');
+
+    const container = value;
+    ancestors.push(container);
+
+    const result = Array.isArray(container)
+        ? container.map(
+              (item, index) =>
+                  toPlainJson(container, String(index), item, serializer, ancestors) ?? null,
+          )
+        : Object.fromEntries(
+              Object.entries(container)
+                  .map(([key, item]) => [
+                      key,
+                      toPlainJson(container, key, item, serializer, ancestors),
+                  ])
+                  .filter(([, item]) => item !== undefined),
+          );
+
+    ancestors.pop();
+
+    return result;
+}
+
+/** Checks if the template contains values which are not available yet */
+function hasLazyParts(template: unknown, ancestors: object[] = []): boolean {
+    if (typeof template === 'function' || isLazySource(template)) return true;
+    // circular structures are reported once serialized
+    if (typeof template !== 'object' || template === null || ancestors.includes(template)) {
+        return false;
+    }
+
+    ancestors.push(template);
+
+    const result = Object.values(template).some(value => hasLazyParts(value, ancestors));
+
+    ancestors.pop();
+
+    return result;
+}
+
+/** Skipped value is not awaited, its failure should not affect the json */
+function ignoreSkipped<B>(builder: B, value: unknown): B {
+    if (isPromiseLike(value)) value.then(undefined, () => {});
+
+    return builder;
+}
+
+function isLazySource(source: unknown): source is PromiseLike<unknown> | AsyncIterable<unknown> {
+    return source !== undefined && (isPromiseLike(source) || isAsyncIterable(source));
+}
+
+/** Pulls data only when the web stream is read, otherwise it waits in the output counting towards `highWaterMark` */
+function toWebStream(reader: OutputReader): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const encode = reader.isBinary ? binaryToBytes : (chunk: string) => encoder.encode(chunk);
+
+    return new ReadableStream<Uint8Array>(
+        {
+            start: controller => {
+                reader.closed.catch(error => controller.error(error));
+            },
+            pull: async controller => {
+                const chunk = await reader.read();
+
+                if (chunk === null) controller.close();
+                else controller.enqueue(encode(chunk));
+            },
+            cancel: reason => reader.cancel(reason),
+        },
+        { highWaterMark: 0 },
+    );
+}
+
+async function* toAsyncIterable(reader: OutputReader): AsyncGenerator<string> {
+    try {
+        for (let chunk = await reader.read(); chunk !== null; chunk = await reader.read()) {
+            yield chunk;
+        }
+    } finally {
+        // consumer broke out of the loop
+        reader.cancel();
+    }
+}
+
+const NON_ASCII = /[^\x00-\x7f]/;
+
+/** Size of the text encoded as utf-8 */
+function utf8Length(text: string): number {
+    // json is mostly ascii, native check is much faster than counting in the loop
+    if (!NON_ASCII.test(text)) return text.length;
+
+    let length = text.length;
+
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+
+        // surrogate pairs take 4 bytes, 2 per each half
+        if (code >= 0x800 && (code < 0xd800 || code > 0xdfff)) length += 2;
+        else if (code >= 0x80) length += 1;
+    }
+
+    return length;
+}
+
+/** Bytes of binary string, see `encoder` option */
+function binaryToBytes(chunk: string): Uint8Array {
+    const bytes = new Uint8Array(chunk.length);
+
+    for (let i = 0; i < chunk.length; i++) bytes[i] = chunk.charCodeAt(i);
+
+    return bytes;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const result = new Uint8Array(a.length + b.length);
+
+    result.set(a);
+    result.set(b, a.length);
+
+    return result;
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+    let binary = '';
+
+    // in slices, as the number of function arguments is limited
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+
+    return btoa(binary);
+}
@@ -0,0 +1,440 @@
+/**
+ * Encodes parts of the document written by builders, e.g. brackets, keys and values added at once.
+ * Chunks of text encoders are written as utf-8, chunks of binary ones are binary strings (one character per byte).
+ */
+export interface Encoder {
+    /** Media type of the output, e.g. for `Content-Type` header */
+    readonly contentType: string;
+    /** Set if chunks are binary strings, pretty printing is supported only by text encoders */
+    readonly isBinary: boolean;
+    /**
+     * Set if arrays, objects and strings are preceded by their size, which is known only once they end.
+     * Their opening chunks are written then, holding back the output until that time.
+     */
+    readonly isLengthPrefixed: boolean;
+    /** Precedes each member of an array or object, except for the first one */
+    readonly separator: string;
+    /**
+     * Encodes plain json value, indented like by `JSON.stringify`.
+     * Values converted according to `serializer` option (`isConverted`) may contain `bigint`s.
+     */
+    value(data: unknown, indent: string, isConverted: boolean): string;
+    /** Encodes items of the array or properties of the object, without the chunks opening and closing it */
+    members(
+        data: ReadonlyArray<unknown> | Record<string, unknown>,
+        indent: string,
+        isConverted: boolean,
+    ): string;
+    /** Encodes key of the property, followed by anything preceding its value */
+    key(key: string, indent: string): string;
+    /** Size is the number of properties for length prefixed encoders, `null` otherwise */
+    openObject(size: number | null): string;
+    closeObject(): string;
+    /** Size is the number of items for length prefixed encoders, `null` otherwise */
+    openArray(size: number | null): string;
+    closeArray(): string;
+    /** Size is the number of bytes of the encoded chunks for length prefixed encoders, `null` otherwise */
+    openString(size: number | null): string;
+    /** Encodes part of the string, surrogate pairs are never split between chunks */
+    stringChunk(text: string): string;
+    closeString(): string;
+}
+
+/** Default encoder, writing json text */
+export const jsonEncoder: Encoder = {
+    contentType: 'application/json; charset=utf-8',
+    isBinary: false,
+    isLengthPrefixed: false,
+    separator: ',',
+    value: (data, indent, isConverted) =>
+        // converted values may contain bigints, which `JSON.stringify` cannot write as numbers
+        isConverted ? stringify(data, indent) : JSON.stringify(data, null, indent),
+    members: (data, indent, isConverted) => {
+        const json = jsonEncoder.value(data, indent, isConverted);
+        const lineBreak = indent && '\n';
+
+        // drop the brackets, and line breaks preceding them
+        return json.slice(1 + lineBreak.length + indent.length, -1 - lineBreak.length);
+    },
+    key: (key, indent) => `${JSON.stringify(key)}:${indent && ' '}`,
+    openObject: () => '{',
+    closeObject: () => '}',
+    openArray: () => '[',
+    closeArray: () => ']',
+    openString: () => '"',
+    stringChunk: text => JSON.stringify(text).slice(1, -1),
+    closeString: () => '"',
+};
+
+/** Primitives and headers of binary formats, values are encoded according to the json data model */
+interface BinaryFormat {
+    readonly null: string;
+    readonly true: string;
+    readonly false: string;
+    integer(value: number | bigint): string;
+    float(value: number): string;
+    string(text: string): string;
+    arrayHeader(size: number): string;
+    mapHeader(size: number): string;
+}
+
+const MAX_UINT64 = BigInt('0xffffffffffffffff');
+const MIN_INT64 = -BigInt('0x8000000000000000');
+
+/** Major types of CBOR data items */
+const enum Cbor {
+    Uint = 0,
+    NegativeInt = 1,
+    Bytes = 2,
+    Text = 3,
+    Array = 4,
+    Map = 5,
+}
+
+const CBOR: BinaryFormat = {
+    null: '\xf6',
+    true: '\xf5',
+    false: '\xf4',
+    integer: value => {
+        const isNegative = value < 0;
+        // negative integers are encoded as -1 - n
+        const n =
+            typeof value === 'bigint'
+                ? isNegative
+                    ? -value - BigInt(1)
+                    : value
+                : isNegative
+                  ? -1 - value
+                  : value;
+
+        if (n <= MAX_UINT64) return cborHeader(isNegative ? Cbor.NegativeInt : Cbor.Uint, n);
+
+        // bignum tags, followed by big-endian bytes of the integer
+        const hex = n.toString(16);
+        const bytes = hexToBinary(hex.length % 2 ? `0${hex}` : hex);
+
+        return (isNegative ? '\xc3' : '\xc2') + cborHeader(Cbor.Bytes, bytes.length) + bytes;
+    },
+    float: value => `\xfb${float64(value)}`,
+    string: text => {
+        const bytes = utf8(text);
+
+        return cborHeader(Cbor.Text, bytes.length) + bytes;
+    },
+    arrayHeader: size => cborHeader(Cbor.Array, size),
+    mapHeader: size => cborHeader(Cbor.Map, size),
+};
+
+/** Terminates indefinite length arrays, maps and strings */
+const CBOR_BREAK = '\xff';
+
+/**
+ * Writes CBOR (RFC 8949), arrays, objects and strings written via child builders have indefinite length,
+ * so that they are streamed like in json.
+ */
+export const cborEncoder: Encoder = {
+    contentType: 'application/cbor',
+    isBinary: true,
+    isLengthPrefixed: false,
+    separator: '',
+    value: (data, _indent, isConverted) => encodeValue(toJsonLike(data, ''), CBOR, isConverted),
+    members: (data, _indent, isConverted) => encodeMembers(data, CBOR, isConverted),
+    key: key => CBOR.string(key),
+    openObject: () => '\xbf',
+    closeObject: () => CBOR_BREAK,
+    openArray: () => '\x9f',
+    closeArray: () => CBOR_BREAK,
+    openString: () => '\x7f',
+    // chunks of indefinite length string are definite length strings
+    stringChunk: text => text && CBOR.string(text),
+    closeString: () => CBOR_BREAK,
+};
+
+const MSGPACK: BinaryFormat = {
+    null: '\xc0',
+    true: '\xc3',
+    false: '\xc2',
+    integer: value => {
+        const n = Number.isSafeInteger(Number(value)) ? Number(value) : value;
+
+        if (typeof n === 'number' && n >= 0) {
+            if (n < 0x80) return byte(n);
+            if (n < 0x100) return `\xcc${uint(n, 1)}`;
+            if (n < 0x10000) return `\xcd${uint(n, 2)}`;
+            if (n < 0x100000000) return `\xce${uint(n, 4)}`;
+
+            return `\xcf${uint(n, 8)}`;
+        }
+
+        if (typeof n === 'number') {
+            if (n >= -0x20) return byte(0x100 + n);
+            if (n >= -0x80) return `\xd0${uint(0x100 + n, 1)}`;
+            if (n >= -0x8000) return `\xd1${uint(0x10000 + n, 2)}`;
+            if (n >= -0x80000000) return `\xd2${uint(0x100000000 + n, 4)}`;
+
+            return `\xd3${uint(BigInt.asUintN(64, BigInt(n)), 8)}`;
+        }
+
+        if (n >= 0 && n <= MAX_UINT64) return `\xcf${uint(n, 8)}`;
+        if (n < 0 && n >= MIN_INT64) return `\xd3${uint(BigInt.asUintN(64, n), 8)}`;
+
+        throw new RangeError(`Integer ${n} does not fit within 64 bits of MessagePack`);
+    },
+    float: value => `\xcb${float64(value)}`,
+    string: text => {
+        const bytes = utf8(text);
+
+        return msgpackStringHeader(bytes.length) + bytes;
+    },
+    arrayHeader: size =>
+        size < 0x10
+            ? byte(0x90 | size)
+            : size < 0x10000
+              ? `\xdc${uint(size, 2)}`
+              : `\xdd${uint(size, 4)}`,
+    mapHeader: size =>
+        size < 0x10
+            ? byte(0x80 | size)
+            : size < 0x10000
+              ? `\xde${uint(size, 2)}`
+              : `\xdf${uint(size, 4)}`,
+};
+
+/**
+ * Writes MessagePack, which arrays, objects and strings are preceded by their size.
+ * Values written via child builders are held back until they end, as their size is not known earlier.
+ */
+export const msgpackEncoder: Encoder = {
+    contentType: 'application/msgpack',
+    isBinary: true,
+    isLengthPrefixed: true,
+    separator: '',
+    value: (data, _indent, isConverted) => encodeValue(toJsonLike(data, ''), MSGPACK, isConverted),
+    members: (data, _indent, isConverted) => encodeMembers(data, MSGPACK, isConverted),
+    key: key => MSGPACK.string(key),
+    openObject: size => MSGPACK.mapHeader(size ?? 0),
+    closeObject: () => '',
+    openArray: size => MSGPACK.arrayHeader(size ?? 0),
+    closeArray: () => '',
+    openString: size => msgpackStringHeader(size ?? 0),
+    stringChunk: text => utf8(text),
+    closeString: () => '',
+};
+
+/** Like `JSON.stringify`, for values converted by `toPlainJson`, which may contain `bigint`s */
+function stringify(value: unknown, indent: string, lineBreak: string = '\n'): string {
+    if (typeof value === 'bigint') return String(value);
+    if (typeof value !== 'object' || value === null) return JSON.stringify(value);
+
+    const nestedLineBreak = indent && lineBreak + indent;
+    const members = Array.isArray(value)
+        ? value.map(item => stringify(item, indent, nestedLineBreak))
+        : Object.entries(value).map(
+              ([key, item]) =>
+                  `${JSON.stringify(key)}:${indent && ' '}${stringify(
+                      item,
+                      indent,
+                      nestedLineBreak,
+                  )}`,
+          );
+    const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+
+    if (members.length === 0) return open + close;
+
+    return `${open}${nestedLineBreak}${members.join(`,${nestedLineBreak}`)}${
+        indent && lineBreak
+    }${close}`;
+}
+
+/**
+ * Encodes the value like `JSON.stringify` would: calls `toJSON` methods, writes non-finite numbers as `null`,
+ * skips properties which cannot be written, and writes such items as `null`.
+ * Only values converted according to `serializer` option (`isConverted`) may contain `bigint`s.
+ */
+function encodeValue(
+    data: unknown,
+    format: BinaryFormat,
+    isConverted: boolean,
+    ancestors: object[] = [],
+): string {
+    switch (typeof data) {
+        case 'boolean':
+            return data ? format.true : format.false;
+        case 'number':
+            if (!Number.isFinite(data)) return format.null;
+
+            return Number.isSafeInteger(data) ? format.integer(data) : format.float(data);
+        case 'bigint':
+            if (!isConverted) throw new TypeError('Do not know how to serialize a BigInt');
+
+            return format.integer(data);
+        case 'string':
+            return format.string(data);
+        case 'object': {
+            if (data === null) return format.null;
+            if (ancestors.includes(data)) throw new TypeError('Converting circular structure');
+
+            ancestors.push(data);
+
+            const result = Array.isArray(data)
+                ? format.arrayHeader(data.length) +
+                  encodeItems(data, format, isConverted, ancestors)
+                : encodeObject(data as Record<string, unknown>, format, isConverted, ancestors);
+
+            ancestors.pop();
+
+            return result;
+        }
+        default:
+            return format.null;
+    }
+}
+
+/** Encodes items of the array, or properties of the object without the header */
+function encodeMembers(
+    data: ReadonlyArray<unknown> | Record<string, unknown>,
+    format: BinaryFormat,
+    isConverted: boolean,
+): string {
+    if (Array.isArray(data)) return encodeItems(data, format, isConverted, [data]);
+
+    return encodeEntries(writableEntries(data as Record<string, unknown>), format, isConverted, [
+        data,
+    ]);
+}
+
+function encodeItems(
+    items: ReadonlyArray<unknown>,
+    format: BinaryFormat,
+    isConverted: boolean,
+    ancestors: object[],
+): string {
+    return items
+        .map((item, index) =>
+            encodeValue(toJsonLike(item, String(index)), format, isConverted, ancestors),
+        )
+        .join('');
+}
+
+function encodeObject(
+    data: Record<string, unknown>,
+    format: BinaryFormat,
+    isConverted: boolean,
+    ancestors: object[],
+): string {
+    const entries = writableEntries(data);
+
+    return (
+        format.mapHeader(entries.length) + encodeEntries(entries, format, isConverted, ancestors)
+    );
+}
+
+function encodeEntries(
+    entries: Array<[string, unknown]>,
+    format: BinaryFormat,
+    isConverted: boolean,
+    ancestors: object[],
+): string {
+    return entries
+        .map(
+            ([key, value]) =>
+                format.string(key) + encodeValue(value, format, isConverted, ancestors),
+        )
+        .join('');
+}
+
+/** Properties which `JSON.stringify` would write, with values returned by `toJSON` methods */
+function writableEntries(data: Record<string, unknown>): Array<[string, unknown]> {
+    return Object.entries(data)
+        .map(([key, value]): [string, unknown] => [key, toJsonLike(value, key)])
+        .filter(
+            ([, value]) =>
+                value !== undefined && typeof value !== 'function' && typeof value !== 'symbol',
+        );
+}
+
+/** Value returned by `toJSON` method of the value, if it has one */
+function toJsonLike(value: unknown, key: string): unknown {
+    const toJSON =
+        typeof value === 'object' && value !== null && (value as { toJSON?: unknown }).toJSON;
+
+    return typeof toJSON === 'function' ? toJSON.call(value, key) : value;
+}
+
+/** Major type followed by the argument, in the shortest form */
+function cborHeader(major: Cbor, argument: number | bigint): string {
+    const type = major << 5;
+
+    if (argument < 24) return byte(type | Number(argument));
+    if (argument < 0x100) return byte(type | 24) + uint(argument, 1);
+    if (argument < 0x10000) return byte(type | 25) + uint(argument, 2);
+    if (argument < 0x100000000) return byte(type | 26) + uint(argument, 4);
+
+    return byte(type | 27) + uint(argument, 8);
+}
+
+function msgpackStringHeader(size: number): string {
+    if (size < 0x20) return byte(0xa0 | size);
+    if (size < 0x100) return `\xd9${uint(size, 1)}`;
+    if (size < 0x10000) return `\xda${uint(size, 2)}`;
+
+    return `\xdb${uint(size, 4)}`;
+}
+
+function byte(value: number): string {
+    return String.fromCharCode(value);
+}
+
+/** Big-endian unsigned integer of given size */
+function uint(value: number | bigint, nBytes: number): string {
+    let result = '';
+
+    for (let i = 0; i < nBytes; i++) {
+        if (typeof value === 'bigint') {
+            result = byte(Number(value & BigInt(0xff))) + result;
+            value >>= BigInt(8);
+        } else {
+            result = byte(value % 0x100) + result;
+            value = Math.floor(value / 0x100);
+        }
+    }
+
+    return result;
+}
+
+function float64(value: number): string {
+    const view = new DataView(new ArrayBuffer(8));
+
+    view.setFloat64(0, value);
+
+    return bytesToBinary(new Uint8Array(view.buffer));
+}
+
+function hexToBinary(hex: string): string {
+    let result = '';
+
+    for (let i = 0; i < hex.length; i += 2) result += byte(parseInt(hex.slice(i, i + 2), 16));
+
+    return result;
+}
+
+const textEncoder = new TextEncoder();
+
+/** Encodes the text as utf-8, lone surrogates are replaced with U+FFFD */
+function utf8(text: string): string {
+    // ascii text is encoded the same way
+    if (/^[\x00-\x7f]*$/.test(text)) return text;
+
+    return bytesToBinary(textEncoder.encode(text));
+}
+
+function bytesToBinary(bytes: Uint8Array): string {
+    let result = '';
+
+    // in batches, as the number of arguments is limited
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+
+    return result;
+}
@@ -1,289 +1,207 @@
-import { PassThrough, Readable } from 'stream';
-
-export type JsonPrimitive = null | string | number | boolean;
-export type JsonValue = JsonPrimitive | Array<JsonValue> | { [k: string]: JsonValue };
-export type JsonBuilder =
-    | JsonStreamBuilder<any>
-    | ArrayStreamBuilder<any>
-    | ObjectStreamBuilder<any>
-    | ValueStreamBuilder<any>;
-
-/**
- * Creates instance of a builder. Can be used to start emiting json chunks of primitives/arrays/objects.
- */
-export function createBuilder() {
-    return new JsonStreamBuilder(null);
-}
-
-/** Base class, manages the stream queueing and scheduling */
-abstract class Builder<Parent extends Builder<any> | null> {
-    /** Output stream, to which we write json contents in accordance to queue mechanism */
-    protected readonly stream = new PassThrough();
-    /** List of Builders that need to be processed in order. */
-    protected readonly queue: Array<Builder<any>> = [];
-    /** Currently processed stream (represented via Builder) */
-    protected current: Builder<any> | null = null;
-    /** Once the queue is drained, and the value set to true, the stream exposed to the user will emit `end` event */
-    protected endScheduled = false;
-
-    constructor(protected readonly parent: Parent) {}
-
-    public asStream(): Readable {
-        return this.stream;
-    }
-
-    protected addChildBuilder(child: Builder<any>): this {
-        if (this.endScheduled) return this;
-
-        this.queue.push(child);
-
-        return this.consumeChildBuilder();
-    }
-
-    /** Sequentially subscribes scheduled streams. Think of `concat` function in rxjs. */
-    private consumeChildBuilder(): this {
-        if (this.current) return this;
-
-        this.current = this.queue.shift() || null;
-
-        if (!this.current && this.endScheduled) {
-            this.stream.end();
-            return this;
-        }
-
-        if (!this.current) {
-            return this;
-        }
-
-        this.current.asStream().pipe(this.stream, { end: false });
-        this.current.asStream().on('end', () => {
-            this.current = null;
-            this.consumeChildBuilder();
-        });
-
-        return this;
-    }
-
-    protected scheduleEnd(): this {
-        this.endScheduled = true;
-        this.consumeChildBuilder();
-
-        return this;
+import { IncomingMessage, OutgoingHttpHeaders, ServerResponse } from 'http';
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { constants, createBrotliCompress, createGzip } from 'zlib';
+
+import {
+    Builder,
+    cborEncoder,
+    Encoder,
+    jsonEncoder,
+    JsonValue,
+    msgpackEncoder,
+    OutputReader,
+    pipeTo as pipeToWebStream,
+    reportUnendedBuilders,
+    toString,
+} from './core';
+
+export * from './core';
+
+declare module './core' {
+    interface Builder<Parent extends Builder<any> | null> {
+        /** Output of the whole document as node stream */
+        asStream(): Readable;
     }
 }
 
-/** Default builder, wrapper around all builders for all types */
-export class JsonStreamBuilder<Parent extends Builder<any> | null> extends Builder<Parent> {
-    /** Pushes primitive value to stream immediately */
-    public primitive(data: JsonPrimitive): Parent {
-        return this.value(data).end();
-    }
-
-    /** Pushes data to stream immediately */
-    public object(data: Record<string, JsonValue>): this;
-    /**
-     * Creates a child builder for objects, which properties can be added any time.
-     * Until the child object is finished (via `.end()` call), all other calls are queued.
-     */
-    public object(): ObjectStreamBuilder<Parent>;
-    public object(data?: Record<string, JsonValue>): this | ObjectStreamBuilder<Parent> {
-        if (data) return this.value(data);
-
-        const builder = new ObjectStreamBuilder(this.parent);
-        this.addChildBuilder(builder).scheduleEnd();
-
-        return builder;
-    }
-
-    /** Pushes data to stream immediately */
-    public array(data: Array<JsonValue>): this;
-    /**
-     * Creates a child builder for array, which items can be added any time.
-     * Until the child array is finished (via `.end()` call), all other calls are queued.
-     */
-    public array(): ArrayStreamBuilder<Parent>;
-    public array(data?: Array<JsonValue>): this | ArrayStreamBuilder<Parent> {
-        if (data) return this.value(data);
-
-        const builder = new ArrayStreamBuilder<Parent>(this.parent);
-        this.addChildBuilder(builder).scheduleEnd();
+Builder.prototype.asStream = function () {
+    return this.asOutput(toNodeStream);
+};
 
-        return builder;
-    }
+// documents which are still incomplete once the process exits, will never be garbage collected
+process.on('exit', reportUnendedBuilders);
 
-    public end(): Parent {
-        this.scheduleEnd();
+/**
+ * Exposes output of the document as node stream, data is pulled only when the stream is read.
+ * Destroying the stream aborts creation of the document.
+ */
+export function toNodeStream(reader: OutputReader): Readable {
+    const stream = new Readable({
+        // data waits in the output until it is read, counting towards its `highWaterMark`
+        highWaterMark: 0,
+        read() {
+            reader.read().then(
+                chunk =>
+                    this.push(
+                        reader.isBinary && chunk !== null ? Buffer.from(chunk, 'latin1') : chunk,
+                    ),
+                error => this.destroy(error),
+            );
+        },
+        destroy(error, callback) {
+            reader.cancel(error ?? undefined);
+            callback(error);
+        },
+    });
 
-        return this.parent;
-    }
+    reader.closed.catch(error => stream.destroy(error));
 
-    private value(data: JsonValue): this {
-        const builder = new ValueStreamBuilder<Parent>(this.parent).value(data);
-        this.addChildBuilder(builder).scheduleEnd();
+    return stream;
+}
 
-        return this;
-    }
+/** Collects the whole document, rejects with `BuilderError` if creation of it failed */
+export async function toBuffer(builder: Builder<any>): Promise<Buffer> {
+    return Buffer.from(await toString(builder), builder.encoder.isBinary ? 'latin1' : 'utf8');
 }
 
 /**
- * Builder for all json objects.
- * Properties of objects can be added asynchronously.
- * Building the object should be finalized via `.end()` call.
+ * Writes the whole document to the node or web stream, ending it once the document is complete.
+ * Rejects with `BuilderError` if creation of the document failed, errors of the stream abort the builder.
  */
-export class ObjectStreamBuilder<Parent extends Builder<any> | null> extends Builder<Parent> {
-    private firstPropertyInserted: boolean = false;
-
-    constructor(parent: Parent) {
-        super(parent);
-        this.addChildBuilder(new ValueStreamBuilder(this).rawValue('{'));
-    }
-
-    /**
-     * Creates a child builder which result will be stored under specified `key`.
-     * Subsequent calls to `addProperty` are queued, and data is writted in order.
-     */
-    public addProperty(key: string): JsonStreamBuilder<this>;
-    /** Adds value under specified `key` immediately */
-    public addProperty(key: string, value: JsonValue): this;
-    public addProperty(key: string, value?: JsonValue): JsonStreamBuilder<this> | this {
-        if (value !== undefined) return this.pushProperty(key, value);
-
-        const builder = new JsonStreamBuilder<this>(this);
-
-        this.insertCommaIfNeeded();
-        this.addChildBuilder(new ValueStreamBuilder(this).rawValue(`"${key}":`));
-        this.addChildBuilder(builder);
+export function pipeTo(
+    builder: Builder<any>,
+    writable: Writable | WritableStream<Uint8Array>,
+): Promise<void> {
+    return writable instanceof Writable
+        ? pipeline(builder.asStream(), writable)
+        : pipeToWebStream(builder, writable);
+}
 
-        return builder;
-    }
+export interface SendJsonOptions {
+    /** Defaults to 200 */
+    statusCode?: number;
+    /** Headers of the response, `Content-Type` defaults to the one of the `encoder` (see builder options) */
+    headers?: OutgoingHttpHeaders;
+    /** Compresses the response with gzip or brotli if the client accepts it, defaults to true */
+    compress?: boolean;
+}
 
-    /** Adds multiple key-value pairs immediately */
-    public addProperties(properties: Record<string, JsonValue>): this {
-        return this.pushProperties(properties);
-    }
+/** Supported values of `Content-Encoding`, in order of preference */
+const CONTENT_ENCODINGS = ['br', 'gzip'] as const;
 
-    /** Finalizes the creation of json object. Waits for all subproperties to be resolved. */
-    public end(): Parent {
-        this.addChildBuilder(new ValueStreamBuilder(this).rawValue('}'));
-        this.scheduleEnd();
+type ContentEncoding = (typeof CONTENT_ENCODINGS)[number];
 
-        return this.parent;
-    }
+/**
+ * Sends the whole document as a response, compressed according to `Accept-Encoding` header of the request.
+ * Compressed data is flushed after each chunk of the document, so that the client receives partial json right away.
+ * Disconnection of the client aborts the builder. Rejects with `BuilderError` if creation of the document failed,
+ * or with an error of the response.
+ */
+export function sendJson(
+    res: ServerResponse,
+    builder: Builder<any>,
+    options: SendJsonOptions = {},
+): Promise<void> {
+    const { statusCode = 200, headers = {}, compress = true } = options;
+    const encoding = compress ? negotiateEncoding(res.req.headers['accept-encoding']) : null;
 
-    private pushProperty(key: string, value: JsonValue): this {
-        this.insertCommaIfNeeded();
-        this.addChildBuilder(
-            new ValueStreamBuilder(this).rawValue(`"${key}":${JSON.stringify(value)}`),
-        );
+    res.statusCode = statusCode;
+    res.setHeader('Content-Type', builder.encoder.contentType);
 
-        return this;
+    for (const [name, value] of Object.entries(headers)) {
+        if (value !== undefined) res.setHeader(name, value);
     }
 
-    private pushProperties(properties: Record<string, JsonValue>): this {
-        if (Object.keys(properties).length === 0) return this;
-
-        this.insertCommaIfNeeded();
+    if (compress) res.setHeader('Vary', 'Accept-Encoding');
+    if (!encoding) return pipeline(builder.asStream(), res);
 
-        // serialize all values to json at once, drop leading '{' and trailing '}'
-        const rawValue = JSON.stringify(properties).slice(1, -1);
-        this.addChildBuilder(new ValueStreamBuilder(this).rawValue(rawValue));
+    res.setHeader('Content-Encoding', encoding);
+    res.removeHeader('Content-Length');
 
-        return this;
-    }
-
-    private insertCommaIfNeeded() {
-        if (!this.firstPropertyInserted) {
-            this.firstPropertyInserted = true;
-            return;
-        }
-
-        this.addChildBuilder(new ValueStreamBuilder(this).rawValue(`,`));
-    }
+    return pipeline(builder.asStream(), createCompression(encoding, builder.encoder.isBinary), res);
 }
 
-export class ArrayStreamBuilder<Parent extends Builder<any> | null> extends Builder<Parent> {
-    private firstItemInserted: boolean = false;
-
-    constructor(parent: Parent) {
-        super(parent);
-        this.addChildBuilder(new ValueStreamBuilder(this).rawValue('['));
-    }
-
-    /**
-     * Creates a child builder which is responsible for creating the array item.
-     * Subsequent calls to `addItem` are queued, and data is writted in order.
-     */
-    public addItem(): JsonStreamBuilder<this>;
-    /** Adds array item immediately */
-    public addItem(value: JsonValue): this;
-    public addItem(value?: JsonValue): JsonStreamBuilder<this> | this {
-        if (value !== undefined) return this.pushItem(value);
-
-        const builder = new JsonStreamBuilder<this>(this);
-
-        this.insertCommaIfNeeded();
-        this.addChildBuilder(builder);
-
-        return builder;
-    }
-
-    /** Adds multiple array items immediately */
-    public addItems(values: JsonValue[]): this {
-        return this.pushItems(values);
+/**
+ * Picks the encoder which media type has the highest quality value in `Accept` header of the request,
+ * e.g. to serve json or CBOR from the same builder code. Earlier encoders win ties, the first one is the fallback.
+ */
+export function negotiateEncoder(
+    req: IncomingMessage,
+    encoders: ReadonlyArray<Encoder> = [jsonEncoder, cborEncoder, msgpackEncoder],
+): Encoder {
+    const qualities = parseQualities(req.headers.accept);
+    let best = encoders[0] ?? jsonEncoder;
+    let bestQuality = 0;
+
+    for (const encoder of encoders) {
+        const mediaType = encoder.contentType.split(';')[0]!.trim().toLowerCase();
+        const quality =
+            qualities.get(mediaType) ??
+            qualities.get(`${mediaType.split('/')[0]}/*`) ??
+            qualities.get('*/*') ??
+            0;
+
+        if (quality > bestQuality) {
+            best = encoder;
+            bestQuality = quality;
+        }
     }
 
-    /** Finalizes the creation of the array. Waits for all items created via child builders to be resolved. */
-    public end(): Parent {
-        this.addChildBuilder(new ValueStreamBuilder(this).rawValue(']'));
-        this.scheduleEnd();
+    return best;
+}
 
-        return this.parent;
-    }
+/** Picks the encoding with the highest quality value in `Accept-Encoding` header, null if none is acceptable */
+function negotiateEncoding(header: string | string[] = ''): ContentEncoding | null {
+    const qualities = parseQualities(header);
+    let best: ContentEncoding | null = null;
+    let bestQuality = 0;
 
-    private pushItem(value: JsonValue): this {
-        this.insertCommaIfNeeded();
-        this.addChildBuilder(new ValueStreamBuilder(this).value(value));
+    for (const encoding of CONTENT_ENCODINGS) {
+        const quality = qualities.get(encoding) ?? qualities.get('*') ?? 0;
 
-        return this;
+        if (quality > bestQuality) {
+            best = encoding;
+            bestQuality = quality;
+        }
     }
 
-    private pushItems(values: JsonValue[]): this {
-        if (values.length === 0) return this;
+    return best;
+}
 
-        this.insertCommaIfNeeded();
+/** Quality values of the items of `Accept` or `Accept-Encoding` header */
+function parseQualities(header: string | string[] = ''): Map<string, number> {
+    const qualities = new Map<string, number>();
 
-        // serialize all values to json at once, drop leading '[' and trailing ']'
-        const rawValue = JSON.stringify(values).slice(1, -1);
-        this.addChildBuilder(new ValueStreamBuilder(this).rawValue(rawValue));
+    for (const part of (Array.isArray(header) ? header.join(',') : header).split(',')) {
+        const [name = '', ...params] = part.split(';').map(param => param.trim().toLowerCase());
+        const quality = params.find(param => param.startsWith('q='));
 
-        return this;
+        qualities.set(name, quality ? Number(quality.slice(2)) : 1);
     }
 
-    private insertCommaIfNeeded() {
-        if (!this.firstItemInserted) {
-            this.firstItemInserted = true;
-            return;
-        }
-
-        this.addChildBuilder(new ValueStreamBuilder(this).rawValue(`,`));
-    }
+    return qualities;
 }
 
-/** Dummy builder for writing primitives. Does not create any child builders. */
-export class ValueStreamBuilder<Parent extends Builder<any> | null> extends Builder<Parent> {
-    public value(data: JsonValue): this {
-        return this.rawValue(JSON.stringify(data));
-    }
-
-    public rawValue(data: string): this {
-        this.stream.push(data);
-        this.stream.push(null);
-
-        return this;
-    }
+function createCompression(encoding: ContentEncoding, isBinary: boolean): Transform {
+    return encoding === 'br'
+        ? createBrotliCompress({
+              flush: constants.BROTLI_OPERATION_FLUSH,
+              // default (highest) quality is too slow for compressing on the fly
+              params: {
+                  [constants.BROTLI_PARAM_QUALITY]: 4,
+                  [constants.BROTLI_PARAM_MODE]: isBinary
+                      ? constants.BROTLI_MODE_GENERIC
+                      : constants.BROTLI_MODE_TEXT,
+              },
+          })
+        : createGzip({ flush: constants.Z_SYNC_FLUSH });
 }
 
-/** Utility (mostly for testing) collecting values of the stream and parsing them. */
+/**
+ * Utility (mostly for testing) collecting values of the stream and parsing them.
+ * Rejects with `BuilderError` (pointing to the failed json path) if creation of json failed.
+ */
 export function toJson(stream: Readable): Promise<JsonValue> {
     return new Promise((resolve, reject) => {
         const chunks: string[] = [];
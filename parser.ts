@@ -0,0 +1,403 @@
+import type { JsonValue } from './core';
+import { formatPath, JsonPath } from './path';
+
+/** Thrown when the parsed text is not valid json, points to the place where parsing failed */
+export class ParseError extends Error {
+    constructor(
+        message: string,
+        /** Offset of the invalid character in utf-8 encoded text */
+        public readonly offset: number,
+        /** Location of the invalid value */
+        public readonly path: JsonPath,
+    ) {
+        super(`${message} (at ${formatPath(path)}, byte ${offset})`);
+        this.name = 'ParseError';
+    }
+}
+
+/** Selector segment matching any key or index */
+const ANY = Symbol('any');
+
+type Selector = ReadonlyArray<string | number | typeof ANY>;
+
+type ParserState =
+    | 'value'
+    | 'value-or-end'
+    | 'key'
+    | 'key-or-end'
+    | 'colon'
+    | 'after-value'
+    | 'string'
+    | 'escape'
+    | 'unicode'
+    | 'number'
+    | 'literal'
+    | 'done';
+
+/**
+ * Parses json text chunk by chunk (e.g. node `Readable`, or body of fetch response), yielding values matching
+ * the `selector` as soon as each of them is complete, e.g. `parse(stream, '$.data[*]')` yields items of `data` one by one.
+ * Selector supports `.key`, `['key']`, `[index]` and wildcards `.*`/`[*]`, by default the whole document is yielded.
+ * Rejects with `ParseError` pointing to the place where the text is not valid json.
+ */
+export function parse<T = JsonValue>(
+    source: AsyncIterable<string | Uint8Array>,
+    selector: string = '$',
+): AsyncGenerator<T, void, undefined> {
+    return parseChunks<T>(source, parseSelector(selector));
+}
+
+async function* parseChunks<T>(
+    source: AsyncIterable<string | Uint8Array>,
+    selector: Selector,
+): AsyncGenerator<T, void, undefined> {
+    const parser = new JsonParser(selector);
+    const decoder = new TextDecoder();
+
+    for await (const chunk of source) {
+        yield* parser.write(
+            typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }),
+        ) as T[];
+        parser.assertValid();
+    }
+
+    yield* parser.write(decoder.decode()) as T[];
+    parser.assertValid();
+    yield* parser.end() as T[];
+    parser.assertValid();
+}
+
+/**
+ * Incremental json tokenizer, keeps track of the path of the current value.
+ * Text of values matching the selector is collected and parsed once the value is complete.
+ */
+class JsonParser {
+    private state: ParserState = 'value';
+    /** Containers enclosing the current value, with index of the current item for arrays */
+    private readonly containers: Array<{ isArray: boolean; index: number }> = [];
+    /** Location of the current value, the key is added once it is parsed */
+    private readonly path: Array<string | number> = [];
+    /** Chunk being parsed */
+    private text = '';
+    /** Offset (in bytes) of the chunk being parsed */
+    private chunkOffset = 0;
+    /** Number of bytes exceeding one per character, in the part of the chunk parsed so far */
+    private extraBytes = 0;
+    /** Text of the key, number or literal being parsed, collected from previous chunks */
+    private token = '';
+    /** Index (in the current chunk) where the token starts */
+    private tokenStart = 0;
+    private isKey = false;
+    private nHexDigits = 0;
+    /** Depth of the value being collected, -1 if none */
+    private captureDepth = -1;
+    /** Text of the value being collected, from previous chunks */
+    private captured = '';
+    /** Index (in the current chunk) where the collected value starts */
+    private captureStart = 0;
+    /** Values completed in the current chunk */
+    private results: JsonValue[] = [];
+    /** Invalid part of the text, thrown by `.assertValid()` once values completed before it are taken */
+    private error: ParseError | null = null;
+
+    constructor(private readonly selector: Selector) {}
+
+    /** Parses next chunk, returns values completed in it (before the invalid part, see `.assertValid()`) */
+    public write(text: string): JsonValue[] {
+        return this.collectResults(() => {
+            this.text = text;
+            this.extraBytes = 0;
+
+            for (let i = 0; i < text.length; i++) {
+                const code = text.charCodeAt(i);
+
+                // character ending number or literal is processed again, as the beginning of next token
+                if (!this.step(code, i)) i--;
+                else if (code >= 0x80)
+                    this.extraBytes += code >= 0x800 && !isSurrogate(code) ? 2 : 1;
+            }
+
+            if (this.isInToken()) this.token += text.slice(this.tokenStart);
+            if (this.captureDepth >= 0) this.captured += text.slice(this.captureStart);
+
+            this.tokenStart = 0;
+            this.captureStart = 0;
+            this.chunkOffset += text.length + this.extraBytes;
+        });
+    }
+
+    /** Finishes parsing, fails if the text was not complete */
+    public end(): JsonValue[] {
+        return this.collectResults(() => {
+            this.text = '';
+            this.extraBytes = 0;
+
+            if (this.state === 'number' || this.state === 'literal') this.endToken(0);
+            if (this.state !== 'done') this.fail('Unexpected end of input', 0);
+        });
+    }
+
+    /** Throws `ParseError` if the text parsed so far is not valid json */
+    public assertValid(): void {
+        if (this.error) throw this.error;
+    }
+
+    /** Runs the parsing step, returns values it completed even if it fails, see `.assertValid()` */
+    private collectResults(parseStep: () => void): JsonValue[] {
+        if (this.error) return [];
+
+        try {
+            parseStep();
+        } catch (error) {
+            if (!(error instanceof ParseError)) throw error;
+
+            this.error = error;
+        }
+
+        return this.takeResults();
+    }
+
+    /** Processes a character, returns false if it did not belong to the current token */
+    private step(code: number, i: number): boolean {
+        switch (this.state) {
+            case 'string':
+                if (code === 0x22 /* " */) this.endString(i);
+                else if (code === 0x5c /* \ */) this.state = 'escape';
+                else if (code < 0x20) this.fail('Unescaped control character in string', i);
+                return true;
+            case 'escape':
+                if (code === 0x75 /* u */) {
+                    this.state = 'unicode';
+                    this.nHexDigits = 0;
+                } else if ('"\\/bfnrt'.includes(String.fromCharCode(code))) {
+                    this.state = 'string';
+                } else {
+                    this.fail('Invalid escape sequence', i);
+                }
+                return true;
+            case 'unicode':
+                if (!isHexDigit(code)) this.fail('Invalid unicode escape sequence', i);
+                if (++this.nHexDigits === 4) this.state = 'string';
+                return true;
+            case 'number':
+                if (isNumberCharacter(code)) return true;
+                this.endToken(i);
+                return false;
+            case 'literal':
+                if (code >= 0x61 /* a */ && code <= 0x7a /* z */) return true;
+                this.endToken(i);
+                return false;
+        }
+
+        if (isWhitespace(code)) return true;
+
+        switch (this.state) {
+            case 'value':
+                this.startValue(code, i);
+                break;
+            case 'value-or-end':
+                if (code === 0x5d /* ] */) this.endContainer(i);
+                else this.startValue(code, i);
+                break;
+            case 'key-or-end':
+                if (code === 0x7d /* } */) this.endContainer(i);
+                else this.startKey(code, i);
+                break;
+            case 'key':
+                this.startKey(code, i);
+                break;
+            case 'colon':
+                if (code !== 0x3a /* : */) this.fail('Expected colon', i);
+                this.state = 'value';
+                break;
+            case 'after-value':
+                this.afterValue(code, i);
+                break;
+            case 'done':
+                this.fail('Unexpected data after the end of the document', i);
+        }
+
+        return true;
+    }
+
+    private startValue(code: number, i: number): void {
+        const container = this.containers[this.containers.length - 1];
+
+        if (container?.isArray) this.path.push(container.index);
+        if (this.captureDepth < 0 && this.matches()) {
+            this.captureDepth = this.containers.length;
+            this.captureStart = i;
+        }
+
+        if (code === 0x7b /* { */) {
+            this.containers.push({ isArray: false, index: 0 });
+            this.state = 'key-or-end';
+        } else if (code === 0x5b /* [ */) {
+            this.containers.push({ isArray: true, index: 0 });
+            this.state = 'value-or-end';
+        } else if (code === 0x22 /* " */) {
+            this.isKey = false;
+            this.state = 'string';
+        } else if (code === 0x2d /* - */ || isDigit(code)) {
+            this.startToken('number', i);
+        } else if (code === 0x74 /* t */ || code === 0x66 /* f */ || code === 0x6e /* n */) {
+            this.startToken('literal', i);
+        } else {
+            this.fail('Unexpected character', i);
+        }
+    }
+
+    private startKey(code: number, i: number): void {
+        if (code !== 0x22 /* " */) this.fail('Expected string key', i);
+
+        this.isKey = true;
+        this.startToken('string', i);
+    }
+
+    private afterValue(code: number, i: number): void {
+        const container = this.containers[this.containers.length - 1]!;
+
+        if (code === 0x2c /* , */) {
+            container.index++;
+            this.state = container.isArray ? 'value' : 'key';
+        } else if (code === (container.isArray ? 0x5d /* ] */ : 0x7d) /* } */) {
+            this.endContainer(i);
+        } else {
+            this.fail(`Expected comma or ${container.isArray ? 'bracket' : 'brace'}`, i);
+        }
+    }
+
+    private endContainer(i: number): void {
+        this.containers.pop();
+        this.endValue(i + 1);
+    }
+
+    private endString(i: number): void {
+        if (!this.isKey) return this.endValue(i + 1);
+
+        this.path.push(JSON.parse(this.token + this.text.slice(this.tokenStart, i + 1)));
+        this.token = '';
+        this.state = 'colon';
+    }
+
+    private startToken(state: ParserState, i: number): void {
+        this.state = state;
+        this.token = '';
+        this.tokenStart = i;
+    }
+
+    /** Finishes number or literal ending before index `end` */
+    private endToken(end: number): void {
+        const token = this.token + this.text.slice(this.tokenStart, end);
+
+        this.token = '';
+
+        if (this.state === 'number' && !NUMBER.test(token)) this.fail('Invalid number', end);
+        if (this.state === 'literal' && !LITERALS.includes(token))
+            this.fail('Invalid literal', end);
+
+        this.endValue(end);
+    }
+
+    /** Finishes the current value, which text ends before index `end` */
+    private endValue(end: number): void {
+        if (this.captureDepth === this.containers.length) {
+            const text = this.captured + this.text.slice(this.captureStart, end);
+
+            this.results.push(JSON.parse(text));
+            this.captureDepth = -1;
+            this.captured = '';
+        }
+
+        const container = this.containers[this.containers.length - 1];
+
+        if (container) this.path.pop();
+        this.state = container ? 'after-value' : 'done';
+    }
+
+    private matches(): boolean {
+        return (
+            this.path.length === this.selector.length &&
+            this.selector.every((segment, i) => segment === ANY || segment === this.path[i])
+        );
+    }
+
+    private isInToken(): boolean {
+        return (
+            this.state === 'number' ||
+            this.state === 'literal' ||
+            (this.isKey && ['string', 'escape', 'unicode'].includes(this.state))
+        );
+    }
+
+    private takeResults(): JsonValue[] {
+        const results = this.results;
+
+        this.results = [];
+
+        return results;
+    }
+
+    private fail(message: string, i: number): never {
+        throw new ParseError(message, this.chunkOffset + i + this.extraBytes, [...this.path]);
+    }
+}
+
+const NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const LITERALS = ['true', 'false', 'null'];
+const SELECTOR_SEGMENT =
+    /\.([A-Za-z_$][\w$]*|\*)|\[(\*|\d+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\]/y;
+
+/** Parses JSONPath-like selector, e.g. `$.data[*].id` */
+function parseSelector(selector: string): Selector {
+    const segments: Array<string | number | typeof ANY> = [];
+
+    if (!selector.startsWith('$')) throw new Error(`Invalid selector ${selector}, expected $`);
+
+    SELECTOR_SEGMENT.lastIndex = 1;
+
+    while (SELECTOR_SEGMENT.lastIndex < selector.length) {
+        const start = SELECTOR_SEGMENT.lastIndex;
+        const match = SELECTOR_SEGMENT.exec(selector);
+
+        if (!match) throw new Error(`Invalid selector ${selector}, at character ${start}`);
+
+        const segment = (match[1] ?? match[2])!;
+
+        if (segment === '*') segments.push(ANY);
+        else if (match[1]) segments.push(segment);
+        else if (/^\d/.test(segment)) segments.push(Number(segment));
+        else if (segment.startsWith('"')) segments.push(JSON.parse(segment));
+        else segments.push(segment.slice(1, -1).replace(/\\(.)/g, '$1'));
+    }
+
+    return segments;
+}
+
+function isWhitespace(code: number): boolean {
+    return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09;
+}
+
+function isDigit(code: number): boolean {
+    return code >= 0x30 && code <= 0x39;
+}
+
+function isHexDigit(code: number): boolean {
+    return isDigit(code) || (code >= 0x41 && code <= 0x46) || (code >= 0x61 && code <= 0x66);
+}
+
+function isNumberCharacter(code: number): boolean {
+    // validated as a whole once the number ends
+    return (
+        isDigit(code) ||
+        code === 0x2e ||
+        code === 0x2d ||
+        code === 0x2b ||
+        code === 0x45 ||
+        code === 0x65
+    );
+}
+
+function isSurrogate(code: number): boolean {
+    return code >= 0xd800 && code <= 0xdfff;
+}
@@ -0,0 +1,12 @@
+/** Location of a builder within the json document, object keys and array indexes */
+export type JsonPath = ReadonlyArray<string | number>;
+
+/** Formats path in JSONPath-like notation, e.g. `$.data[2]["some key"]` */
+export function formatPath(path: JsonPath): string {
+    return path.reduce<string>((acc, segment) => {
+        if (typeof segment === 'number') return `${acc}[${segment}]`;
+        if (/^[A-Za-z_$][\w$]*$/.test(segment)) return `${acc}.${segment}`;
+
+        return `${acc}[${JSON.stringify(segment)}]`;
+    }, '$');
+}
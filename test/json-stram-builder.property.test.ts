@@ -1,30 +1,37 @@
 import { describe, test, expect } from 'vitest';
 import fc from 'fast-check';
 
-import { JsonValue, createBuilder, JsonStreamBuilder, toJson } from '../json-stream-builder';
-
-/** Generates random json structures */
-const jsonArbitrary = fc.letrec<{ value: JsonValue }>(tie => ({
-    value: fc.oneof(
-        { arbitrary: fc.constant(null), weight: 1 },
-        { arbitrary: fc.boolean(), weight: 1 },
-        { arbitrary: fc.hexaString({ maxLength: 5 }), weight: 2 },
-        {
-            arbitrary: fc
-                .integer()
-                .filter(n => n !== -0 && Number.isFinite(n) && Number.isSafeInteger(n)),
-            weight: 2,
-        },
-        { arbitrary: fc.float().filter(n => n !== -0 && Number.isFinite(n)), weight: 2 },
-        {
-            arbitrary: fc.dictionary(fc.hexaString({ maxLength: 5 }), tie('value'), {
-                maxKeys: 10,
-            }),
-            weight: 3,
-        },
-        { arbitrary: fc.array(tie('value')), weight: 3 },
-    ),
-}));
+import { JsonValue, createBuilder, JsonStreamBuilder, parse, toJson } from '../json-stream-builder';
+
+/** Generates random json structures, object keys are generated by given arbitrary */
+const createJsonArbitrary = (keyArbitrary: fc.Arbitrary<string>) =>
+    fc.letrec<{ value: JsonValue }>(tie => ({
+        value: fc.oneof(
+            { arbitrary: fc.constant(null), weight: 1 },
+            { arbitrary: fc.boolean(), weight: 1 },
+            { arbitrary: fc.hexaString({ maxLength: 5 }), weight: 2 },
+            {
+                arbitrary: fc
+                    .integer()
+                    .filter(n => n !== -0 && Number.isFinite(n) && Number.isSafeInteger(n)),
+                weight: 2,
+            },
+            { arbitrary: fc.float().filter(n => n !== -0 && Number.isFinite(n)), weight: 2 },
+            {
+                arbitrary: fc.dictionary(keyArbitrary, tie('value'), {
+                    maxKeys: 10,
+                }),
+                weight: 3,
+            },
+            { arbitrary: fc.array(tie('value')), weight: 3 },
+        ),
+    }));
+
+const jsonArbitrary = createJsonArbitrary(fc.hexaString({ maxLength: 5 }));
+/** Keys with any unicode characters, including quotes, backslashes, control characters and lone surrogates */
+const unicodeKeysJsonArbitrary = createJsonArbitrary(
+    fc.oneof(fc.fullUnicodeString({ maxLength: 5 }), fc.string16bits({ maxLength: 5 })),
+);
 
 describe('json stream builder properties', () => {
     test('value obtained from the stream should always produce the same value as input', () => {
@@ -41,6 +48,93 @@ describe('json stream builder properties', () => {
         );
     });
 
+    test('value with arbitrary unicode keys obtained from the stream should always produce the same value as input', () => {
+        return fc.assert(
+            fc.asyncProperty(unicodeKeysJsonArbitrary.value, fc.gen(), async (value, g) => {
+                const builder = createBuilder();
+
+                walkAndRecreateUsingBuilder(value, g, builder);
+
+                const result = await toJson(builder.asStream());
+
+                expect(result).toEqual(value);
+            }),
+        );
+    });
+
+    test('pretty printed stream should always produce the same text as JSON.stringify', () => {
+        return fc.assert(
+            fc.asyncProperty(
+                jsonArbitrary.value,
+                fc.oneof(fc.integer({ min: 0, max: 12 }), fc.string({ maxLength: 12 })),
+                fc.gen(),
+                async (value, indent, g) => {
+                    const builder = createBuilder({ indent });
+
+                    walkAndRecreateUsingBuilder(value, g, builder);
+
+                    const chunks = await builder.asStream().toArray();
+
+                    expect(chunks.join('')).toEqual(JSON.stringify(value, null, indent));
+                },
+            ),
+        );
+    });
+
+    test('stream with serializer enabled should always produce the same text as JSON.stringify', () => {
+        return fc.assert(
+            fc.asyncProperty(
+                unicodeKeysJsonArbitrary.value,
+                fc.integer({ min: 0, max: 4 }),
+                fc.gen(),
+                async (value, indent, g) => {
+                    const builder = createBuilder({ indent, serializer: {} });
+
+                    walkAndRecreateUsingBuilder(value, g, builder);
+
+                    const chunks = await builder.asStream().toArray();
+
+                    expect(chunks.join('')).toEqual(JSON.stringify(value, null, indent));
+                },
+            ),
+        );
+    });
+
+    test('value parsed incrementally from the stream should always produce the same value as input', () => {
+        return fc.assert(
+            fc.asyncProperty(
+                unicodeKeysJsonArbitrary.value,
+                fc.integer({ min: 0, max: 4 }),
+                fc.gen(),
+                async (value, indent, g) => {
+                    const builder = createBuilder({ indent });
+
+                    walkAndRecreateUsingBuilder(value, g, builder);
+
+                    const results: JsonValue[] = [];
+                    for await (const result of parse(builder.asStream())) results.push(result);
+
+                    expect(results).toEqual([value]);
+                },
+            ),
+        );
+    });
+
+    test('items parsed incrementally from the stream should always produce the same items as input', () => {
+        return fc.assert(
+            fc.asyncProperty(fc.array(jsonArbitrary.value), fc.gen(), async (items, g) => {
+                const builder = createBuilder();
+
+                walkAndRecreateUsingBuilder(items, g, builder);
+
+                const results: JsonValue[] = [];
+                for await (const result of parse(builder.asStream(), '$[*]')) results.push(result);
+
+                expect(results).toEqual(items);
+            }),
+        );
+    });
+
     test('value obtained from the stream should always produce the same value as input regardless of order of calls across child builders', () => {
         return fc.assert(
             fc.asyncProperty(
@@ -0,0 +1,131 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import {
+    ArrayStreamBuilder,
+    createBuilder,
+    createSequenceBuilder,
+    JsonValue,
+    ObjectStreamBuilder,
+    SequenceStreamBuilder,
+} from '../json-stream-builder';
+
+type User = { id: number; name: string; email?: string; tags: string[] };
+
+describe('JsonStreamBuilder types', () => {
+    describe('untyped', () => {
+        it('accepts any json value', () => {
+            createBuilder()
+                .object()
+                .addProperty('a', 1)
+                .addProperty('b', [{ c: null }])
+                .end();
+            createBuilder().array().addItem('a').addItem({ b: true }).end();
+            createBuilder().primitive(null);
+        });
+    });
+
+    describe('typed', () => {
+        it('accepts only values matching the type', () => {
+            createBuilder<number>().primitive(1);
+            // @ts-expect-error
+            createBuilder<number>().primitive('1');
+
+            createBuilder<User>().object({ id: 1, name: 'a', tags: [] });
+            // @ts-expect-error
+            createBuilder<User>().object({ id: '1', name: 'a', tags: [] });
+        });
+
+        it('does not allow building containers of other types', () => {
+            // @ts-expect-error
+            createBuilder<User>().array();
+            // @ts-expect-error
+            createBuilder<User[]>().object();
+            // @ts-expect-error
+            createBuilder<number>().string();
+        });
+
+        it('accepts only keys and values of the object', () => {
+            const builder = createBuilder<User>().object();
+
+            builder.addProperty('email', 'a@b.c');
+            // @ts-expect-error
+            builder.addProperty('unknown', 1);
+            // @ts-expect-error
+            builder.addProperty('id', 'not a number');
+            // @ts-expect-error
+            builder.addProperties({ id: 1, unknown: 1 });
+        });
+
+        it('allows ending object only when all required keys were added', () => {
+            const builder = createBuilder<User>().object();
+
+            // @ts-expect-error
+            builder.end();
+            // @ts-expect-error
+            builder.addProperty('id', 1).addProperty('name', 'a').end();
+
+            builder.addProperty('id', 1).addProperty('name', 'a').addProperty('tags', []).end();
+            builder.addProperties({ id: 1, name: 'a' }).addProperty('tags').array().end().end();
+        });
+
+        it('infers types of child builders', () => {
+            const users = createBuilder<User[]>().array();
+
+            expectTypeOf(users.addItem().object().addProperty('tags').array()).toEqualTypeOf<
+                ArrayStreamBuilder<ObjectStreamBuilder<typeof users, User, 'id' | 'name'>, string>
+            >();
+
+            users.addItem().object({ id: 1, name: 'a', tags: ['b'] });
+            // @ts-expect-error
+            users.addItem().primitive(1);
+            // @ts-expect-error
+            users.addItem().object().addProperty('tags').array().addItem(1);
+        });
+
+        it('accepts lazy values matching the type', () => {
+            createBuilder<User>().from(Promise.resolve({ id: 1, name: 'a', tags: [] }));
+            // @ts-expect-error
+            createBuilder<User>().from(Promise.resolve({ id: 1 }));
+
+            createBuilder<number[]>().from(
+                (async function* () {
+                    yield 1;
+                })(),
+            );
+        });
+
+        it('accepts templates matching the type', () => {
+            createBuilder<User>().from({
+                id: Promise.resolve(1),
+                name: () => 'a',
+                tags: (async function* () {
+                    yield 'b';
+                })(),
+            });
+            createBuilder<User[]>().from([{ id: 1, name: 'a', tags: [Promise.resolve('b')] }]);
+            // @ts-expect-error
+            createBuilder<User>().from({ id: Promise.resolve('1'), name: 'a', tags: [] });
+            // @ts-expect-error
+            createBuilder<User>().from({ id: 1, tags: [] });
+        });
+
+        it('accepts serializable values when serializer is enabled', () => {
+            const builder = createBuilder({ serializer: { bigint: 'string' } });
+
+            builder.object().addProperty('a', 1n).addProperty('b', new Date()).end();
+            builder.array().addItem(new Map([['a', new Set([1])]]));
+            // @ts-expect-error
+            createBuilder().object().addProperty('a', 1n);
+            // @ts-expect-error
+            createBuilder().object().addProperty('b', new Date());
+        });
+
+        it('types records of sequences', () => {
+            const sequence = createSequenceBuilder<User>();
+
+            sequence.addItem({ id: 1, name: 'a', tags: [] });
+            // @ts-expect-error
+            sequence.addItem(1);
+            expectTypeOf(createSequenceBuilder()).toEqualTypeOf<SequenceStreamBuilder<JsonValue>>();
+        });
+    });
+});
@@ -1,6 +1,32 @@
-import { describe, it, expect } from 'vitest';
-
-import { createBuilder, toJson } from '../json-stream-builder';
+import { describe, it, expect, vi } from 'vitest';
+import { createServer, get, IncomingMessage, OutgoingHttpHeaders, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { Readable, Writable } from 'stream';
+import { createBrotliDecompress, createGunzip } from 'zlib';
+
+import {
+    BuilderEndedError,
+    BuilderError,
+    buildToString,
+    cborEncoder,
+    DuplicateKeyError,
+    EmptySlotError,
+    LimitExceededError,
+    createBuilder,
+    createSequenceBuilder,
+    JsonSchema,
+    msgpackEncoder,
+    negotiateEncoder,
+    pipeTo,
+    reportUnendedBuilders,
+    SchemaValidationError,
+    sendJson,
+    SlotAlreadyFilledError,
+    TimeoutError,
+    toBuffer,
+    toJson,
+    toString,
+} from '../json-stream-builder';
 
 describe('json stream builder', () => {
     it('creates primitive value directly', () => {
@@ -207,6 +233,114 @@ describe('json stream builder', () => {
         });
     });
 
+    describe('completion order', () => {
+        it('writes properties of unordered object once they are complete', async () => {
+            const builder = createBuilder();
+            const objectBuilder = builder.object().unordered();
+
+            objectBuilder.addProperty(
+                'slow',
+                wait(20).then(() => 1),
+            );
+            objectBuilder.addProperty('fast', Promise.resolve(2));
+            objectBuilder.addProperty('immediate', 3);
+            objectBuilder.addProperty('nested').array().addItem(4).end();
+            objectBuilder.end();
+
+            const chunks: string[] = [];
+
+            for await (const chunk of builder) chunks.push(chunk);
+
+            // complete properties are not held back by the slow one
+            expect(chunks[0]).toBe('{"immediate":3,"nested":[4]');
+            expect(chunks.join('')).toBe('{"immediate":3,"nested":[4],"fast":2,"slow":1}');
+        });
+
+        it('writes items of unordered array in order of completion', async () => {
+            const builder = createBuilder({ indent: 2 });
+            const arrayBuilder = builder.array().unordered();
+
+            let resolveA: (value: string) => void = () => {};
+            let resolveB: (value: string) => void = () => {};
+
+            arrayBuilder.addItem(new Promise<string>(resolve => (resolveA = resolve)));
+            arrayBuilder.addItem(new Promise<string>(resolve => (resolveB = resolve)));
+            const itemBuilder = arrayBuilder.addItem().object();
+            arrayBuilder.addItem('d');
+            arrayBuilder.end();
+
+            resolveB('b');
+            await wait(1);
+            itemBuilder.addProperty('c', true).end();
+            await wait(1);
+            resolveA('a');
+
+            await expect(toText(builder.asStream())).resolves.toBe(
+                '[\n  "d",\n  "b",\n  {\n    "c": true\n  },\n  "a"\n]',
+            );
+        });
+
+        it('keeps order of items added before the builder became unordered', () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.array();
+
+            arrayBuilder.addItem(wait(10).then(() => 1));
+            arrayBuilder.unordered();
+            arrayBuilder.addItem(wait(5).then(() => 2));
+            arrayBuilder.addItem(3);
+            arrayBuilder.end();
+
+            return expect(toText(builder.asStream())).resolves.toBe('[1,3,2]');
+        });
+
+        it('writes empty containers and nested unordered builders', () => {
+            const builder = createBuilder();
+            const objectBuilder = builder.object().unordered();
+
+            objectBuilder.addProperty('empty').array().unordered().end();
+
+            const nestedBuilder = objectBuilder.addProperty('nested').object().unordered();
+
+            nestedBuilder.addProperty(
+                'a',
+                wait(5).then(() => 1),
+            );
+            nestedBuilder.addProperty('b', 2);
+            nestedBuilder.end();
+            objectBuilder.end();
+
+            return expect(toText(builder.asStream())).resolves.toBe(
+                '{"empty":[],"nested":{"b":2,"a":1}}',
+            );
+        });
+
+        it('points to index of the call in errors', () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.array().unordered();
+
+            arrayBuilder.addItem(wait(5).then(() => 1));
+            arrayBuilder.addItem(Promise.reject(new Error('oops')));
+            arrayBuilder.end();
+
+            return expect(toText(builder.asStream())).rejects.toThrow('oops (at $[1])');
+        });
+
+        it('closes pending children when terminated', () => {
+            const builder = createBuilder({ onError: 'graceful' });
+            const objectBuilder = builder.object().unordered();
+
+            objectBuilder.addProperty('pending', new Promise<number>(() => {}));
+            objectBuilder.addProperty('a', 1);
+            objectBuilder.addProperty('failed', Promise.reject(new Error('oops')));
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({
+                a: 1,
+                failed: { $error: { message: 'oops', path: '$.failed' } },
+                pending: null,
+            });
+        });
+    });
+
     describe('async', () => {
         it('creates object using builder with nested array', async () => {
             const builder = createBuilder();
@@ -285,55 +419,2211 @@ describe('json stream builder', () => {
         });
     });
 
-    describe('invalid uses', () => {
-        it('should ignore cases when trying to write primitive value after emission ended', () => {
+    describe('lazy sources', () => {
+        it('writes value of a promise', () => {
             const builder = createBuilder();
 
-            builder.primitive(42);
-            builder.primitive(42);
+            builder.from(wait(10).then(() => ({ a: 1 })));
 
-            return expect(toJson(builder.asStream())).resolves.toEqual(42);
+            return expect(toJson(builder.asStream())).resolves.toEqual({ a: 1 });
         });
 
-        it('should ignore cases when trying to write non-primitive value after emission ended', () => {
+        it('streams async iterable as an array', () => {
             const builder = createBuilder();
 
-            builder.array().addItem(1).addItem(2).addItem(3).end();
-            builder.array().addItem(1).addItem(2).addItem(3).end();
+            builder.from(generate([1, 'two', { three: 3 }]));
 
-            return expect(toJson(builder.asStream())).resolves.toEqual([1, 2, 3]);
+            return expect(toJson(builder.asStream())).resolves.toEqual([1, 'two', { three: 3 }]);
         });
 
-        it('should ignore items written after ending the array', () => {
+        it('streams object mode readable as an array', () => {
+            const builder = createBuilder();
+
+            builder.from(Readable.from([1, 'two', [3]]));
+
+            return expect(toJson(builder.asStream())).resolves.toEqual([1, 'two', [3]]);
+        });
+
+        it('keeps order of properties resolving in different order', () => {
+            const builder = createBuilder();
+
+            builder
+                .object()
+                .addProperty(
+                    'slow',
+                    wait(30).then(() => 'slow'),
+                )
+                .addProperty('items', generate([1, 2, 3]))
+                .addProperty('fast', Promise.resolve('fast'))
+                .addProperty('sync', 42)
+                .end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({
+                slow: 'slow',
+                items: [1, 2, 3],
+                fast: 'fast',
+                sync: 42,
+            });
+        });
+
+        it('keeps order of items resolving in different order', () => {
+            const builder = createBuilder();
+
+            builder
+                .array()
+                .addItem(wait(30).then(() => 'slow'))
+                .addItem(Readable.from([{ a: 1 }, { b: 2 }]))
+                .addItem(Promise.resolve(null))
+                .addItem(42)
+                .end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual([
+                'slow',
+                [{ a: 1 }, { b: 2 }],
+                null,
+                42,
+            ]);
+        });
+
+        it('emits error if the promise rejects', () => {
+            const builder = createBuilder();
+
+            builder
+                .array()
+                .addItem(1)
+                .addItem(Promise.reject(new Error('upstream failed')))
+                .end();
+
+            return expect(toJson(builder.asStream())).rejects.toThrow('upstream failed');
+        });
+    });
+
+    describe('mapping sources', () => {
+        it('writes mapped items in order of the source, running limited number of mappers', async () => {
             const builder = createBuilder();
+            let nRunning = 0;
+            let maxRunning = 0;
+
+            const done = builder.array().addItemsFrom(
+                [30, 10, 20, 5, 0],
+                async (delay, index) => {
+                    maxRunning = Math.max(maxRunning, ++nRunning);
+                    await wait(delay);
+                    nRunning--;
+
+                    return { delay, index };
+                },
+                { concurrency: 2, end: true },
+            );
+
+            await expect(toJson(builder.asStream())).resolves.toEqual([
+                { delay: 30, index: 0 },
+                { delay: 10, index: 1 },
+                { delay: 20, index: 2 },
+                { delay: 5, index: 3 },
+                { delay: 0, index: 4 },
+            ]);
+            await expect(done).resolves.toBeUndefined();
+            expect(maxRunning).toBe(2);
+        });
 
+        it('maps values of async iterable without ending the array', async () => {
+            const builder = createBuilder();
             const arrayBuilder = builder.array();
 
-            arrayBuilder.addItem(1);
-            arrayBuilder.addItem(2);
-            arrayBuilder.addItem(3);
-            arrayBuilder.end();
-            arrayBuilder.addItem(4);
+            await arrayBuilder.addItemsFrom(generate([1, 2]), value => value * 10);
+            arrayBuilder.addItem('last').end();
 
-            return expect(toJson(builder.asStream())).resolves.toEqual([1, 2, 3]);
+            await expect(toJson(builder.asStream())).resolves.toEqual([10, 20, 'last']);
         });
 
-        it('should ignore properties written after ending the object', () => {
+        it('fails the builder when mapper fails', async () => {
             const builder = createBuilder();
+            const stream = builder.asStream();
 
-            const arrayBuilder = builder.object();
+            const done = builder.array().addItemsFrom([1, 2, 3], value => {
+                if (value === 2) throw new Error('mapper failed');
 
-            arrayBuilder.addProperty('a', 1);
-            arrayBuilder.addProperty('b', 2);
-            arrayBuilder.addProperty('c', 3);
-            arrayBuilder.end();
-            arrayBuilder.addProperty('d', 4);
+                return value;
+            });
 
-            return expect(toJson(builder.asStream())).resolves.toEqual({ a: 1, b: 2, c: 3 });
+            await expect(toJson(stream)).rejects.toThrow('mapper failed (at $[1])');
+            await expect(done).resolves.toBeUndefined();
+        });
+
+        it('writes error marker in place of the failed item and stops in graceful mode', async () => {
+            const builder = createBuilder({ onError: 'graceful' });
+            const mapper = vi.fn((value: number) =>
+                value === 2 ? Promise.reject(new Error('oops')) : value,
+            );
+
+            await builder.array().addItemsFrom([1, 2, 3, 4], mapper);
+
+            await expect(toJson(builder.asStream())).resolves.toEqual([
+                1,
+                { $error: { message: 'oops', path: '$[1]' } },
+            ]);
+            expect(mapper).toHaveBeenCalledTimes(2);
+        });
+
+        it('fails the builder when source fails', async () => {
+            const builder = createBuilder();
+            const stream = builder.asStream();
+
+            const done = builder.array().addItemsFrom(failingSource(), value => value);
+
+            await expect(toJson(stream)).rejects.toThrow('source failed (at $)');
+            await expect(done).resolves.toBeUndefined();
+        });
+
+        it('stops mapping once the output is destroyed', async () => {
+            const builder = createBuilder();
+            const stream = builder.asStream().on('error', () => {});
+            const mapper = vi.fn((value: number) => wait(value).then(() => value));
+
+            const done = builder.array().addItemsFrom([10, 10, 10, 10], mapper, { end: true });
+
+            await wait(15);
+            stream.destroy(new Error('client disconnected'));
+
+            await expect(done).resolves.toBeUndefined();
+            expect(mapper.mock.calls.length).toBeLessThan(4);
+        });
+
+        it('waits for the consumer before mapping more values', async () => {
+            const builder = createBuilder({ highWaterMark: 16 });
+            const mapper = vi.fn((value: number) => 'x'.repeat(value));
+
+            const done = builder.array().addItemsFrom([10, 10, 10, 10], mapper, { end: true });
+
+            await wait(10);
+            expect(mapper.mock.calls.length).toBeLessThan(4);
+
+            await expect(toJson(builder.asStream())).resolves.toHaveLength(4);
+            await expect(done).resolves.toBeUndefined();
         });
     });
-});
 
-function wait(nMs: number) {
-    return new Promise(res => setTimeout(res, nMs));
+    describe('templates', () => {
+        it('fills lazy parts of the template in order', () => {
+            const builder = createBuilder();
+
+            builder.from({
+                meta: { page: 1, total: Promise.resolve(2) },
+                data: [
+                    { id: 1 },
+                    wait(20).then(() => ({ id: 2 })),
+                    () => ({ id: Promise.resolve(3) }),
+                ],
+                items: generate(['a', 'b']),
+                tags: Readable.from(['c']),
+                static: [true, null],
+            });
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({
+                meta: { page: 1, total: 2 },
+                data: [{ id: 1 }, { id: 2 }, { id: 3 }],
+                items: ['a', 'b'],
+                tags: ['c'],
+                static: [true, null],
+            });
+        });
+
+        it('writes static parts immediately', async () => {
+            const builder = createBuilder();
+            const chunks = builder.asIterable()[Symbol.asyncIterator]();
+
+            builder.from({ a: 1, b: [2, new Promise(() => {})] });
+
+            await expect(chunks.next()).resolves.toEqual({ value: '{"a":1,"b":[2,', done: false });
+        });
+
+        it('calls functions once preceding parts are written', async () => {
+            const builder = createBuilder();
+            const summary = vi.fn(() => 'summary');
+
+            builder.from({ data: wait(20).then(() => [1]), summary });
+            await wait(10);
+
+            expect(summary).not.toHaveBeenCalled();
+            await expect(toJson(builder.asStream())).resolves.toEqual({
+                data: [1],
+                summary: 'summary',
+            });
+            expect(summary).toHaveBeenCalledTimes(1);
+            expect(buildToString(syncBuilder => syncBuilder.from([1, () => 2]))).toBe('[1,2]');
+        });
+
+        it('accepts templates in child builders', () => {
+            const builder = createBuilder();
+            const objectBuilder = builder.object();
+
+            objectBuilder.addProperty('a').from([Promise.resolve(1), { b: () => 2 }]);
+            objectBuilder.end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({ a: [1, { b: 2 }] });
+        });
+
+        it('skips undefined properties like JSON.stringify', () => {
+            const builder = createBuilder<{
+                a?: number | undefined;
+                b: number;
+                c: Array<number | undefined>;
+            }>();
+
+            builder.from({ a: undefined, b: Promise.resolve(1), c: [undefined, () => 2] });
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({ b: 1, c: [null, 2] });
+        });
+
+        it('fails at the path of the rejected leaf', () => {
+            const builder = createBuilder();
+
+            builder.from({ data: [1, Promise.reject(new Error('upstream failed'))] });
+
+            return expect(toJson(builder.asStream())).rejects.toThrow(
+                'upstream failed (at $.data[1])',
+            );
+        });
+    });
+
+    describe('pretty printing', () => {
+        it('indents nested builders', () => {
+            const builder = createBuilder({ indent: 2 });
+
+            builder
+                .object()
+                .addProperty('foo', null)
+                .addProperty('sub')
+                .array()
+                .addItem(1)
+                .addItem()
+                .object()
+                .addProperty('a', [1, { b: 2 }])
+                .end()
+                .end()
+                .addProperty('empty')
+                .object()
+                .end()
+                .end();
+
+            return expect(toText(builder.asStream())).resolves.toBe(
+                [
+                    '{',
+                    '  "foo": null,',
+                    '  "sub": [',
+                    '    1,',
+                    '    {',
+                    '      "a": [',
+                    '        1,',
+                    '        {',
+                    '          "b": 2',
+                    '        }',
+                    '      ]',
+                    '    }',
+                    '  ],',
+                    '  "empty": {}',
+                    '}',
+                ].join('\n'),
+            );
+        });
+
+        it('indents values added in bulk', () => {
+            const builder = createBuilder({ indent: '\t' });
+
+            builder
+                .array()
+                .addItems([1, { a: [] }])
+                .addItem()
+                .object()
+                .addProperties({ x: 'a', y: ['b'] })
+                .end()
+                .end();
+
+            return expect(toText(builder.asStream())).resolves.toBe(
+                JSON.stringify([1, { a: [] }, { x: 'a', y: ['b'] }], null, '\t'),
+            );
+        });
+
+        it('indents values using string containing replacement patterns', () => {
+            const builder = createBuilder({ indent: '$$' });
+
+            builder
+                .array()
+                .addItem([{ a: null }])
+                .end();
+
+            return expect(toText(builder.asStream())).resolves.toBe(
+                JSON.stringify([[{ a: null }]], null, '$$'),
+            );
+        });
+
+        it('writes empty containers without line breaks', () => {
+            const builder = createBuilder({ indent: 4 });
+
+            builder.array().addItem().array().end().addItem().object().end().end();
+
+            return expect(toText(builder.asStream())).resolves.toBe('[\n    [],\n    {}\n]');
+        });
+    });
+
+    describe('strings', () => {
+        it('writes string chunk by chunk', () => {
+            const builder = createBuilder();
+            const stringBuilder = builder.object().addProperty('text').string();
+
+            stringBuilder.write('first "chunk"\n');
+            stringBuilder.write('');
+            stringBuilder.write('second \\ chunk');
+
+            stringBuilder.end().addProperty('next', true).end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({
+                text: 'first "chunk"\nsecond \\ chunk',
+                next: true,
+            });
+        });
+
+        it('keeps surrogate pairs split across chunks intact', async () => {
+            const builder = createBuilder();
+            const stringBuilder = builder.string();
+
+            stringBuilder.write('smile \ud83d');
+            stringBuilder.write('\ude00!');
+            stringBuilder.end();
+
+            return expect(toText(builder.asStream())).resolves.toBe('"smile \ud83d\ude00!"');
+        });
+
+        it('escapes lone surrogates', async () => {
+            const builder = createBuilder();
+            const stringBuilder = builder.string();
+
+            stringBuilder.write('\ude00 lone \ud83d');
+            stringBuilder.end();
+
+            return expect(toText(builder.asStream())).resolves.toBe('"\\ude00 lone \\ud83d"');
+        });
+
+        it('writes binary stream as base64 encoded string', () => {
+            const builder = createBuilder();
+            const chunks = [[1], [2, 3, 4, 5], [], [6, 7], [8, 9, 10, 11, 12, 13, 14]].map(bytes =>
+                Buffer.from(bytes),
+            );
+
+            builder.array().addItem().base64(Readable.from(chunks)).addItem(1).end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual([
+                Buffer.concat(chunks).toString('base64'),
+                1,
+            ]);
+        });
+
+        it('fails the builder when binary stream errors', () => {
+            const builder = createBuilder();
+
+            builder.array().addItem().base64(failingBinarySource()).end();
+
+            return expect(toJson(builder.asStream())).rejects.toThrow('source failed (at $[0])');
+        });
+    });
+
+    describe('keys', () => {
+        it('escapes keys', () => {
+            const builder = createBuilder();
+            const keys = [
+                '"quoted"',
+                'back\\slash',
+                'new\nline',
+                '\u0000',
+                '\ud83d\ude00',
+                '\ud83d',
+            ];
+
+            const objectBuilder = builder.object();
+
+            keys.forEach((key, idx) =>
+                idx % 2
+                    ? objectBuilder.addProperty(key, idx)
+                    : objectBuilder.addProperty(key).primitive(idx),
+            );
+            objectBuilder.end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual(
+                Object.fromEntries(keys.map((key, idx) => [key, idx])),
+            );
+        });
+
+        it('writes duplicate keys by default', () => {
+            const builder = createBuilder();
+
+            builder.object().addProperty('a', 1).addProperty('a', 2).end();
+
+            return expect(toText(builder.asStream())).resolves.toBe('{"a":1,"a":2}');
+        });
+
+        it('throws on duplicate keys', () => {
+            const builder = createBuilder({ duplicateKeys: 'throw' });
+            const objectBuilder = builder.object().addProperty('a', 1);
+
+            expect(() => objectBuilder.addProperty('a', 2)).toThrow(DuplicateKeyError);
+            expect(() => objectBuilder.addProperty('a')).toThrow('Duplicate key "a" (at $.a)');
+            expect(() => objectBuilder.addProperties({ b: 2, a: 3 })).toThrow(DuplicateKeyError);
+
+            objectBuilder.addProperties({ b: 2 }).end();
+
+            return expect(toText(builder.asStream())).resolves.toBe('{"a":1,"b":2}');
+        });
+
+        it('skips duplicate keys', () => {
+            const builder = createBuilder({ duplicateKeys: 'skip' });
+
+            builder
+                .object()
+                .addProperty('a', 1)
+                .addProperty('a', 2)
+                .addProperty('a')
+                .object()
+                .addProperty('nested', 3)
+                .end()
+                .addProperty('a', Promise.reject(new Error('skipped')))
+                .addProperties({ a: 4, b: 5 })
+                .addProperties({ b: 6 })
+                .end();
+
+            return expect(toText(builder.asStream())).resolves.toBe('{"a":1,"b":5}');
+        });
+    });
+
+    describe('schema', () => {
+        const schema: JsonSchema = {
+            type: 'object',
+            properties: {
+                id: { type: 'integer', minimum: 1 },
+                status: { enum: ['active', 'deleted'] },
+                name: { type: 'string', maxLength: 5 },
+                tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+            },
+            required: ['id'],
+            additionalProperties: false,
+        };
+
+        it('writes values matching the schema', () => {
+            const builder = createBuilder({ schema });
+            const objectBuilder = builder.object();
+
+            objectBuilder.addProperty('id', 1).addProperty('status', Promise.resolve('active'));
+
+            const nameBuilder = objectBuilder.addProperty('name').string();
+
+            nameBuilder.write('John');
+            nameBuilder.end();
+            objectBuilder.addProperty('tags').array().addItems(['a']).addItem('b').end();
+            objectBuilder.end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({
+                id: 1,
+                status: 'active',
+                name: 'John',
+                tags: ['a', 'b'],
+            });
+        });
+
+        it('throws at the call site when value does not match the schema', () => {
+            const builder = createBuilder({ schema });
+            const objectBuilder = builder.object().addProperty('id', 1);
+            const tagsBuilder = objectBuilder.addProperty('tags').array();
+
+            expect(() => objectBuilder.addProperty('id', 0)).toThrow(SchemaValidationError);
+            expect(() => objectBuilder.addProperty('status', 'unknown')).toThrow(
+                'Expected one of ["active","deleted"] (at $.status)',
+            );
+            expect(() => objectBuilder.addProperty('other', 1)).toThrow(
+                'Unexpected property "other" (at $.other)',
+            );
+            expect(() => objectBuilder.addProperties({ name: 'Too long' })).toThrow(
+                'Expected at most 5 characters (at $.name)',
+            );
+
+            const nameBuilder = objectBuilder.addProperty('name');
+
+            expect(() => nameBuilder.array()).toThrow('Expected string, got array (at $.name)');
+            nameBuilder.primitive('Jo');
+
+            expect(() => tagsBuilder.addItem(1)).toThrow(
+                'Expected string, got integer (at $.tags[0])',
+            );
+            expect(() => tagsBuilder.addItems(['a', 'b', 'c'])).toThrow(
+                'Expected at most 2 items (at $.tags)',
+            );
+
+            tagsBuilder.end();
+            objectBuilder.end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({
+                id: 1,
+                tags: [],
+                name: 'Jo',
+            });
+        });
+
+        it('throws when ending object without required properties', () => {
+            const builder = createBuilder({ schema });
+            const objectBuilder = builder.object();
+
+            expect(() => objectBuilder.end()).toThrow('Missing required property "id" (at $)');
+
+            objectBuilder.addProperty('id').primitive(2);
+            objectBuilder.end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({ id: 2 });
+        });
+
+        it('fails the builder when value does not match the schema in fail mode', async () => {
+            const builder = createBuilder({ schema, onInvalidValue: 'fail' });
+            const stream = builder.asStream();
+            const objectBuilder = builder.object();
+
+            objectBuilder.addProperty('id', 1).addProperty('name', 'Too long');
+
+            const error = await toJson(stream).catch(err => err);
+
+            expect(error).toBeInstanceOf(SchemaValidationError);
+            expect(error.path).toEqual(['name']);
+        });
+
+        it('fails the builder when lazy value does not match the schema', async () => {
+            const builder = createBuilder({ schema, onError: 'graceful' });
+            const objectBuilder = builder.object();
+
+            objectBuilder.addProperty('id', Promise.resolve(1.5));
+            objectBuilder.addProperty('tags', generate(['a', 'b', 'c']));
+            objectBuilder.end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({
+                id: { $error: { message: 'Expected integer, got number', path: '$.id' } },
+                tags: [],
+            });
+        });
+
+        it('ignores failure of lazy value skipped in fail mode', async () => {
+            const builder = createBuilder({ schema: { maxItems: 1 }, onInvalidValue: 'fail' });
+            const result = toJson(builder.asStream()).catch(err => err);
+            const arrayBuilder = builder.array();
+
+            const rejections = await unhandledRejections(() => {
+                arrayBuilder.addItem(1).addItem(Promise.reject(new Error('oops')));
+            });
+
+            expect(rejections).toEqual([]);
+            await expect(result).resolves.toBeInstanceOf(SchemaValidationError);
+        });
+
+        it('validates records of a sequence', () => {
+            const builder = createSequenceBuilder({ schema: { type: 'number' } });
+
+            expect(() => builder.addItem('1')).toThrow('Expected number, got string (at $[0])');
+
+            builder.addItems([1, 2]).end();
+
+            return expect(toText(builder.asStream())).resolves.toBe('1\n2\n');
+        });
+    });
+
+    describe('limits', () => {
+        it('throws at the call site when array or object has too many members', () => {
+            const builder = createBuilder({ maxItemsPerArray: 2, maxPropertiesPerObject: 1 });
+            const arrayBuilder = builder.array().addItem(1);
+
+            expect(() => arrayBuilder.addItems([2, 3])).toThrow(LimitExceededError);
+            arrayBuilder.addItem(2);
+            expect(() => arrayBuilder.addItem()).toThrow(
+                'Exceeded maxItemsPerArray of 2 (at $[2])',
+            );
+
+            const objectBuilder = createBuilder({ maxPropertiesPerObject: 1 }).object();
+
+            objectBuilder.addProperty('a', 1);
+            expect(() => objectBuilder.addProperty('b', Promise.resolve(2))).toThrow(
+                'Exceeded maxPropertiesPerObject of 1 (at $.b)',
+            );
+            expect(() => objectBuilder.addProperties({ c: 3 })).toThrow(LimitExceededError);
+
+            arrayBuilder.end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual([1, 2]);
+        });
+
+        it('throws at the call site when values are nested too deep', () => {
+            const builder = createBuilder({ maxDepth: 2 });
+            const objectBuilder = builder.object();
+
+            objectBuilder.addProperty('a', [1]);
+            expect(() => objectBuilder.addProperty('b', [[1]])).toThrow(
+                'Exceeded maxDepth of 2 (at $.b)',
+            );
+
+            const arrayBuilder = objectBuilder.addProperty('c').array();
+
+            const itemBuilder = arrayBuilder.addItem().object();
+
+            // empty containers do not contain any values which could be too deep
+            expect(() => itemBuilder.addProperty('d')).toThrow(
+                'Exceeded maxDepth of 2 (at $.c[0].d)',
+            );
+            expect(() => arrayBuilder.addItems([{}, []])).not.toThrow();
+
+            itemBuilder.end();
+
+            arrayBuilder.end();
+            objectBuilder.end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({ a: [1], c: [{}, {}, []] });
+        });
+
+        it('fails the builder once the output is too large', async () => {
+            const builder = createBuilder({ maxBytes: 20, onLimitExceeded: 'fail' });
+            const arrayBuilder = builder.array();
+
+            arrayBuilder.addItem('a'.repeat(10));
+            arrayBuilder.addItem('b'.repeat(10));
+
+            const error = await toJson(builder.asStream()).catch(err => err);
+
+            expect(error).toBeInstanceOf(LimitExceededError);
+            expect(error).toMatchObject({ limit: 'maxBytes', path: [1] });
+        });
+
+        it('ignores failure of lazy value skipped in fail mode', async () => {
+            const builder = createBuilder({ maxItemsPerArray: 1, onLimitExceeded: 'fail' });
+            const result = toJson(builder.asStream()).catch(err => err);
+            const arrayBuilder = builder.array();
+            const sequenceBuilder = createSequenceBuilder({ maxDepth: 0, onLimitExceeded: 'fail' });
+            const sequenceResult = toText(sequenceBuilder.asStream()).catch(err => err);
+
+            const rejections = await unhandledRejections(() => {
+                arrayBuilder.addItem(1).addItem(Promise.reject(new Error('oops')));
+                sequenceBuilder.addItem(Promise.reject(new Error('oops')));
+            });
+
+            expect(rejections).toEqual([]);
+            await expect(result).resolves.toMatchObject({ limit: 'maxItemsPerArray', path: [1] });
+            await expect(sequenceResult).resolves.toMatchObject({ limit: 'maxDepth', path: [0] });
+        });
+
+        it('fails the builder when value of a promise exceeds the limits', () => {
+            const builder = createBuilder({ maxBytes: 10 });
+
+            builder
+                .object()
+                .addProperty('a', Promise.resolve('a'.repeat(10)))
+                .end();
+
+            return expect(toJson(builder.asStream())).rejects.toThrow(
+                'Exceeded maxBytes of 10 (at $.a)',
+            );
+        });
+
+        it('counts contents of strings written chunk by chunk', async () => {
+            const builder = createBuilder({ maxBytes: 8, onLimitExceeded: 'truncate' });
+            const stringBuilder = builder.array().addItem().string();
+
+            await stringBuilder.write('abc');
+            await stringBuilder.write('defg');
+
+            await expect(toJson(builder.asStream())).resolves.toEqual([
+                'abc',
+                { $truncated: { limit: 'maxBytes', path: '$[0]' } },
+            ]);
+        });
+
+        it('writes truncation marker and closes all brackets in truncate mode', () => {
+            const builder = createBuilder({ maxItemsPerArray: 2, onLimitExceeded: 'truncate' });
+            const objectBuilder = builder.object();
+
+            objectBuilder.addProperty('a', 1);
+            objectBuilder.addProperty('pending', new Promise<number>(() => {}));
+
+            const arrayBuilder = objectBuilder.addProperty('items').array();
+
+            arrayBuilder.addItems([1, 2]);
+            arrayBuilder.addItem(3);
+            arrayBuilder.addItem(4);
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({
+                a: 1,
+                pending: null,
+                items: [1, 2, { $truncated: { limit: 'maxItemsPerArray', path: '$.items[2]' } }],
+            });
+        });
+
+        it('uses custom truncation marker', () => {
+            const builder = createBuilder({
+                maxPropertiesPerObject: 1,
+                onLimitExceeded: 'truncate',
+                truncationMarker: error => ({ truncated: true, limit: error.limit }),
+            });
+
+            builder.object().addProperties({ a: 1 }).addProperties({ b: 2 });
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({
+                a: 1,
+                truncated: true,
+                limit: 'maxPropertiesPerObject',
+            });
+        });
+    });
+
+    describe('strict mode', () => {
+        it('throws when ended builder is used', () => {
+            const builder = createBuilder({ strict: true });
+            const objectBuilder = builder.object();
+            const itemBuilder = objectBuilder.addProperty('a').array();
+
+            itemBuilder.addItem(1).end();
+            objectBuilder.end();
+
+            expect(() => itemBuilder.addItem(2)).toThrow(BuilderEndedError);
+            expect(() => itemBuilder.end()).toThrow('Builder has already ended (at $.a)');
+        });
+
+        it('throws when value is provided twice', () => {
+            const builder = createBuilder({ strict: true });
+            const objectBuilder = builder.object();
+            const propertyBuilder = objectBuilder.addProperty('a');
+
+            propertyBuilder.primitive(1);
+            objectBuilder.end();
+
+            expect(() => propertyBuilder.object()).toThrow(SlotAlreadyFilledError);
+            expect(() => propertyBuilder.primitive(2)).toThrow(
+                'Value has already been provided (at $.a)',
+            );
+            expect(() => propertyBuilder.end()).toThrow(SlotAlreadyFilledError);
+        });
+
+        it('throws when value is ended before it is provided', () => {
+            const builder = createBuilder({ strict: true });
+            const objectBuilder = builder.object();
+            const propertyBuilder = objectBuilder.addProperty('a');
+
+            expect(() => propertyBuilder.end()).toThrow(EmptySlotError);
+            expect(() => propertyBuilder.end()).toThrow('Value was not provided (at $.a)');
+
+            propertyBuilder.primitive(1);
+            objectBuilder.end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({ a: 1 });
+        });
+
+        it('ends values which are provided but still pending', () => {
+            const builder = createBuilder({ strict: true });
+            const arrayBuilder = builder.array();
+            const promiseBuilder = arrayBuilder.addItem();
+            const functionBuilder = arrayBuilder.addItem();
+
+            promiseBuilder.from(wait(5).then(() => 1));
+            functionBuilder.from(() => 2);
+
+            expect(() => promiseBuilder.end()).not.toThrow();
+            expect(() => functionBuilder.end()).not.toThrow();
+
+            arrayBuilder.end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual([1, 2]);
+        });
+
+        it('does not throw when value is ended before it is provided outside strict mode', () => {
+            const builder = createBuilder();
+            const propertyBuilder = builder.object().addProperty('a');
+
+            expect(() => propertyBuilder.end()).not.toThrow();
+        });
+
+        it('ignores calls to builders terminated after failure', async () => {
+            const builder = createBuilder({ strict: true, onError: 'graceful' });
+            const objectBuilder = builder.object();
+            const arrayBuilder = objectBuilder.addProperty('items').array();
+
+            objectBuilder.addProperty('failed', Promise.reject(new Error('oops')));
+            await wait(1);
+
+            expect(() => arrayBuilder.addItem(1).end()).not.toThrow();
+            expect(() => objectBuilder.end()).not.toThrow();
+        });
+
+        it('reports builders which were never ended', async () => {
+            const onUnendedBuilder = vi.fn();
+            const builder = createBuilder({ strict: true, onUnendedBuilder });
+            const objectBuilder = builder.object();
+
+            objectBuilder.addProperty('a').array().addItem(1);
+            objectBuilder.addProperty('b').object().end();
+            reportUnendedBuilders();
+
+            expect(onUnendedBuilder.mock.calls.map(([error]) => error.message)).toEqual([
+                'Builder was never ended (at $)',
+                'Builder was never ended (at $.a)',
+            ]);
+
+            // reported only once
+            reportUnendedBuilders();
+            expect(onUnendedBuilder).toHaveBeenCalledTimes(2);
+        });
+
+        it('does not report builders of complete documents', async () => {
+            const onUnendedBuilder = vi.fn();
+            const builder = createBuilder({ strict: true, onUnendedBuilder });
+
+            builder.array().addItem().object().end().end();
+            await toJson(builder.asStream());
+            reportUnendedBuilders();
+
+            expect(onUnendedBuilder).not.toHaveBeenCalled();
+        });
+
+        it('ignores calls to ended builders by default', () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.array();
+
+            arrayBuilder.end();
+
+            expect(() => arrayBuilder.addItem(1).end()).not.toThrow();
+        });
+    });
+
+    describe('serializer', () => {
+        it('converts bigints, dates, maps and sets', async () => {
+            const builder = createBuilder({
+                serializer: { bigint: 'number', date: 'timestamp', map: 'object', set: 'array' },
+            });
+            const objectBuilder = builder.object();
+
+            objectBuilder.addProperty('big', 12345678901234567890n);
+            objectBuilder.addProperty('date', new Date(1000));
+            objectBuilder.addProperty('map', new Map([[1, new Set(['a'])]]));
+            objectBuilder.addProperties({ entries: new Map([['b', 2n]]) });
+            objectBuilder.end();
+
+            await expect(toText(builder.asStream())).resolves.toBe(
+                '{"big":12345678901234567890,"date":1000,"map":{"1":["a"]},"entries":{"b":2}}',
+            );
+        });
+
+        it('writes bigints as strings, maps as entries and dates as ISO strings', async () => {
+            const builder = createBuilder({ serializer: { bigint: 'string', map: 'entries' } });
+
+            builder
+                .array()
+                .addItems([1n, new Map([['a', new Date(0)]])])
+                .end();
+
+            await expect(toJson(builder.asStream())).resolves.toEqual([
+                '1',
+                [['a', '1970-01-01T00:00:00.000Z']],
+            ]);
+        });
+
+        it('applies replacer and toJSON to every value, including resolved ones', async () => {
+            const builder = createBuilder({
+                serializer: {
+                    replacer: (key, value) => (key === 'secret' ? undefined : value),
+                },
+            });
+            const arrayBuilder = builder.array();
+
+            arrayBuilder.addItem({ a: 1, secret: 2 });
+            arrayBuilder.addItem(Promise.resolve({ toJSON: () => ({ b: 3, secret: 4 }) }));
+            arrayBuilder.addItem().object().addProperty('secret', 5).addProperty('c', 6).end();
+            arrayBuilder.addItem().from(generate([{ secret: 7 }]));
+            arrayBuilder.end();
+
+            await expect(toJson(builder.asStream())).resolves.toEqual([
+                { a: 1 },
+                { b: 3 },
+                { c: 6 },
+                [{}],
+            ]);
+        });
+
+        it('pretty prints converted values', async () => {
+            const builder = createBuilder({ indent: 2, serializer: { bigint: 'number' } });
+
+            builder
+                .object()
+                .addProperty('a')
+                .array()
+                .addItems([1n, { b: [] }])
+                .end()
+                .end();
+
+            await expect(toText(builder.asStream())).resolves.toBe(
+                '{\n  "a": [\n    1,\n    {\n      "b": []\n    }\n  ]\n}',
+            );
+        });
+
+        it('validates converted values', () => {
+            const builder = createBuilder({
+                schema: { items: { type: 'integer', maximum: 10 } },
+                serializer: { bigint: 'number', date: 'timestamp' },
+            });
+            const arrayBuilder = builder.array().addItem(10n);
+
+            expect(() => arrayBuilder.addItem(11n)).toThrow(SchemaValidationError);
+            expect(() => arrayBuilder.addItem(new Date(20))).toThrow(SchemaValidationError);
+        });
+
+        it('throws for unsupported values like JSON.stringify', () => {
+            type Circular = { self?: Circular };
+            const circular: Circular = {};
+            circular.self = circular;
+
+            expect(() => createBuilder({ serializer: {} }).from(1n)).toThrow(
+                'Cannot serialize bigint',
+            );
+            expect(() => createBuilder({ serializer: {} }).from(circular)).toThrow(
+                'Cannot serialize circular structure',
+            );
+        });
+
+        it('fails the builder if resolved value cannot be converted', () => {
+            const builder = createBuilder({ serializer: {} });
+
+            builder.array().addItem(Promise.resolve(1n)).end();
+
+            return expect(toJson(builder.asStream())).rejects.toThrow('Cannot serialize bigint');
+        });
+    });
+
+    describe('sequence', () => {
+        it('writes newline delimited records in order of calls', async () => {
+            const builder = createSequenceBuilder();
+
+            builder.addItem({ a: 1 });
+
+            const recordBuilder = builder.addItem().object();
+
+            builder.addItem(wait(10).then(() => 'lazy'));
+            builder.addItems([null, [1, 2]]);
+            recordBuilder.addProperty('text', 'multi\nline').addProperty('nested').array().end();
+            recordBuilder.end();
+            builder.end();
+
+            return expect(toText(builder.asStream())).resolves.toBe(
+                [
+                    '{"a":1}',
+                    '{"text":"multi\\nline","nested":[]}',
+                    '"lazy"',
+                    'null',
+                    '[1,2]',
+                    '',
+                ].join('\n'),
+            );
+        });
+
+        it('frames records according to RFC 7464', () => {
+            const builder = createSequenceBuilder({ format: 'json-seq' });
+
+            builder.addItem(1).addItems([2, 3]).addItem().object().addProperty('a', 4).end();
+            builder.end();
+
+            return expect(toText(builder.asStream())).resolves.toBe(
+                '\x1e1\n\x1e2\n\x1e3\n\x1e{"a":4}\n',
+            );
+        });
+
+        it('writes nothing for empty sequence', () => {
+            const builder = createSequenceBuilder();
+
+            builder.end();
+
+            return expect(toText(builder.asStream())).resolves.toBe('');
+        });
+
+        it('writes error marker in place of the failed record in graceful mode', () => {
+            const builder = createSequenceBuilder({ onError: 'graceful' });
+
+            builder
+                .addItem(1)
+                .addItem(Promise.reject(new Error('oops')))
+                .addItem(3);
+
+            return expect(toText(builder.asStream())).resolves.toBe(
+                '1\n{"$error":{"message":"oops","path":"$[1]"}}\n3\n',
+            );
+        });
+    });
+
+    describe('encoders', () => {
+        it('writes CBOR with indefinite length containers', async () => {
+            const builder = createBuilder({ encoder: cborEncoder });
+            const objectBuilder = builder.object().addProperty('a', 1);
+
+            objectBuilder
+                .addProperty('b')
+                .array()
+                .addItem(Promise.resolve('x'))
+                .addItems([true, null])
+                .end();
+            objectBuilder.end();
+
+            const output = await toBuffer(builder);
+
+            expect(output.toString('hex')).toBe('bf61610161629f6178f5f6ffff');
+        });
+
+        it('writes CBOR strings chunk by chunk', () => {
+            const output = buildToString(
+                builder => {
+                    const stringBuilder = builder.string();
+
+                    stringBuilder.write('ab');
+                    stringBuilder.write('\ud83c');
+                    stringBuilder.write('\udf89');
+                    stringBuilder.end();
+                },
+                { encoder: cborEncoder },
+            );
+
+            expect(hex(output)).toBe('7f626162' + '64f09f8e89' + 'ff');
+        });
+
+        it('writes CBOR values', () => {
+            const output = buildToString(
+                builder => builder.array([1.5, -1, -500, 'ż', {}, [], Infinity]),
+                { encoder: cborEncoder },
+            );
+
+            expect(hex(output)).toBe('87fb3ff8000000000000203901f362c5bca080f6');
+        });
+
+        it('writes bigints converted by the serializer as CBOR integers', async () => {
+            const builder = createBuilder({
+                encoder: cborEncoder,
+                serializer: { bigint: 'number' },
+            });
+
+            builder.array([2n ** 64n, -(2n ** 64n) - 1n, 2n ** 40n]);
+
+            const output = await toBuffer(builder);
+
+            expect(output.toString('hex')).toBe(
+                '83' + 'c249010000000000000000' + 'c349010000000000000000' + '1b0000010000000000',
+            );
+        });
+
+        it('writes MessagePack once the size of each value is known', async () => {
+            const builder = createBuilder({ encoder: msgpackEncoder });
+            const objectBuilder = builder.object().addProperty('a', 1);
+            const arrayBuilder = objectBuilder.addProperty('b').array();
+            const chunks = builder[Symbol.asyncIterator]();
+            const firstChunk = chunks.next();
+            const onChunk = vi.fn();
+
+            firstChunk.then(onChunk);
+            arrayBuilder.addItem(Promise.resolve('x')).addItems([true, null]);
+            await wait(10);
+
+            // size of the object is not known yet
+            expect(onChunk).not.toHaveBeenCalled();
+
+            arrayBuilder.end();
+            objectBuilder.end();
+
+            const output = (await firstChunk).value + (await collectChunks(chunks)).join('');
+
+            expect(hex(output)).toBe('82a16101a16293a178c3c0');
+        });
+
+        it('writes MessagePack strings once they end', () => {
+            const output = buildToString(
+                builder => {
+                    const stringBuilder = builder.string();
+
+                    stringBuilder.write('ab');
+                    stringBuilder.write('ż');
+                    stringBuilder.end();
+                },
+                { encoder: msgpackEncoder },
+            );
+
+            expect(hex(output)).toBe('a46162c5bc');
+        });
+
+        it('writes MessagePack values in the shortest form', () => {
+            const output = buildToString(
+                builder =>
+                    builder.array([127, 128, 65536, -33, -129, 2 ** 40, 0.5, 'a'.repeat(32)]),
+                { encoder: msgpackEncoder },
+            );
+
+            expect(hex(output)).toBe(
+                '98' +
+                    '7f' +
+                    'cc80' +
+                    'ce00010000' +
+                    'd0df' +
+                    'd1ff7f' +
+                    'cf0000010000000000' +
+                    'cb3fe0000000000000' +
+                    'd920' +
+                    '61'.repeat(32),
+            );
+        });
+
+        it('writes error marker in graceful mode', async () => {
+            const builder = createBuilder({ encoder: msgpackEncoder, onError: 'graceful' });
+
+            builder
+                .array()
+                .addItem(1)
+                .addItem(Promise.reject(new Error('oops')))
+                .end();
+
+            const output = await toBuffer(builder);
+
+            expect(output.toString('hex')).toBe(
+                '9201' + '81a6246572726f72' + '82a76d657373616765a46f6f7073a470617468a4245b315d',
+            );
+        });
+
+        it('writes error marker in place of failed string once the enclosing array ended', async () => {
+            const builder = createBuilder({ encoder: msgpackEncoder, onError: 'graceful' });
+            const arrayBuilder = builder.array();
+            const stringBuilder = arrayBuilder.addItem().string();
+
+            arrayBuilder.end();
+            await stringBuilder.write('ab');
+            stringBuilder.fail(new Error('oops'));
+
+            const output = await toBuffer(builder);
+
+            expect(output.toString('hex')).toBe(
+                '91' + '81a6246572726f72' + '82a76d657373616765a46f6f7073a470617468a4245b305d',
+            );
+        });
+
+        it('concatenates binary records of sequences', () => {
+            const builder = createSequenceBuilder({ encoder: cborEncoder });
+
+            builder.addItem(1).addItem().array().addItem('a').end();
+            builder.end();
+
+            return expect(toBuffer(builder).then(output => output.toString('hex'))).resolves.toBe(
+                '019f6161ff',
+            );
+        });
+
+        it('exposes binary output as bytes', async () => {
+            const builder = createBuilder({ encoder: cborEncoder });
+
+            builder.primitive('ż');
+
+            const bytes = await new Response(builder.asWebStream()).arrayBuffer();
+
+            expect(Buffer.from(bytes).toString('hex')).toBe('62c5bc');
+        });
+
+        it('sends the content type of the encoder', async () => {
+            const response = await request(
+                res => {
+                    const builder = createBuilder({ encoder: negotiateEncoder(res.req) });
+
+                    builder.array().addItem(1).end();
+                    sendJson(res, builder, { compress: false });
+                },
+                { accept: 'application/json;q=0.5, application/cbor' },
+            );
+
+            expect(response.headers['content-type']).toBe('application/cbor');
+            await expect(response.toArray().then(Buffer.concat)).resolves.toEqual(
+                Buffer.from('9f01ff', 'hex'),
+            );
+        });
+
+        it.each([
+            [undefined, 'application/json; charset=utf-8'],
+            ['application/msgpack', 'application/msgpack'],
+            ['application/*;q=0.5, application/cbor;q=0.1', 'application/json; charset=utf-8'],
+            ['text/html', 'application/json; charset=utf-8'],
+        ])('negotiates encoder accepted as %j', async (accept, contentType) => {
+            const response = await request(
+                res => {
+                    res.end(negotiateEncoder(res.req).contentType);
+                },
+                accept ? { accept } : {},
+            );
+
+            await expect(toText(response)).resolves.toBe(contentType);
+        });
+    });
+
+    describe('web streams', () => {
+        it('writes json to web stream', async () => {
+            const builder = createBuilder();
+            const objectBuilder = builder.object();
+
+            objectBuilder.addProperty('a', 1).addProperty('b', Promise.resolve([true]));
+            objectBuilder.end();
+
+            const text = await new Response(builder.asWebStream()).text();
+
+            expect(JSON.parse(text)).toEqual({ a: 1, b: [true] });
+        });
+
+        it('waits for the web stream to be pulled before accepting more items', async () => {
+            const builder = createBuilder({ highWaterMark: 64 });
+            const arrayBuilder = builder.array();
+            const reader = builder.asWebStream().getReader();
+            let nWritten = 0;
+
+            const producing = (async () => {
+                for (let i = 0; i < 100; i++) {
+                    await arrayBuilder.write({ i });
+                    nWritten++;
+                }
+
+                arrayBuilder.end();
+            })();
+
+            await wait(20);
+            expect(nWritten).toBeLessThan(100);
+
+            const chunks: Uint8Array[] = [];
+            for (let result = await reader.read(); !result.done; result = await reader.read()) {
+                chunks.push(result.value);
+            }
+
+            await producing;
+
+            expect(JSON.parse(Buffer.concat(chunks).toString())).toHaveLength(100);
+        });
+
+        it('aborts the builder when web stream gets cancelled', async () => {
+            const builder = createBuilder({ highWaterMark: 16 });
+            const arrayBuilder = builder.array();
+            const reader = builder.asWebStream().getReader();
+
+            const written = arrayBuilder.write('a'.repeat(32));
+
+            await reader.cancel(new Error('client disconnected'));
+
+            await expect(written).rejects.toThrow('client disconnected (at $)');
+            await expect(arrayBuilder.ready()).rejects.toBeInstanceOf(BuilderError);
+        });
+    });
+
+    describe('iterables', () => {
+        it('yields json chunks', async () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.array();
+
+            arrayBuilder.addItem(1).addItem(Promise.resolve({ a: 'ą' }));
+            arrayBuilder.end();
+
+            const chunks: string[] = [];
+            for await (const chunk of builder.asIterable()) chunks.push(chunk);
+
+            expect(chunks.length).toBeGreaterThan(1);
+            expect(JSON.parse(chunks.join(''))).toEqual([1, { a: 'ą' }]);
+        });
+
+        it('aborts the builder when the loop is broken', async () => {
+            const builder = createBuilder({ highWaterMark: 16 });
+            const arrayBuilder = builder.array();
+
+            let written: Promise<void> | null = null;
+
+            arrayBuilder.addItem(1);
+
+            for await (const _ of builder.asIterable()) {
+                written = arrayBuilder.write('a'.repeat(32));
+                break;
+            }
+
+            await expect(written).rejects.toThrow('Output stream was cancelled (at $)');
+        });
+    });
+
+    describe('consumption helpers', () => {
+        it('iterates over builder directly', async () => {
+            const builder = createBuilder();
+
+            builder.array().addItem(1).addItem(Promise.resolve(2)).end();
+
+            let json = '';
+            for await (const chunk of builder) json += chunk;
+
+            expect(JSON.parse(json)).toEqual([1, 2]);
+        });
+
+        it('collects the document as string or buffer', async () => {
+            const builder = createBuilder();
+            const objectBuilder = builder.object();
+
+            objectBuilder.addProperty('a', Promise.resolve('ą')).end();
+
+            await expect(toString(objectBuilder)).resolves.toBe('{"a":"ą"}');
+
+            const otherBuilder = createBuilder();
+
+            otherBuilder.primitive('ą');
+            await expect(toBuffer(otherBuilder)).resolves.toEqual(Buffer.from('"ą"'));
+        });
+
+        it('rejects with the builder error', async () => {
+            const builder = createBuilder();
+
+            builder
+                .array()
+                .addItem(Promise.reject(new Error('failed')))
+                .end();
+
+            await expect(toString(builder)).rejects.toThrow('failed (at $[0])');
+        });
+
+        it('pipes the document to node stream', async () => {
+            const builder = createBuilder();
+            const chunks: Buffer[] = [];
+            const writable = new Writable({
+                write(chunk, _, callback) {
+                    chunks.push(chunk);
+                    callback();
+                },
+            });
+
+            builder.array().addItems([1, 2]).end();
+            await pipeTo(builder, writable);
+
+            expect(Buffer.concat(chunks).toString()).toBe('[1,2]');
+            expect(writable.writableFinished).toBe(true);
+        });
+
+        it('pipes the document to web stream', async () => {
+            const builder = createBuilder();
+            const chunks: Uint8Array[] = [];
+
+            builder.object().addProperty('a', Promise.resolve(1)).end();
+            await pipeTo(builder, new WritableStream({ write: chunk => void chunks.push(chunk) }));
+
+            expect(Buffer.concat(chunks).toString()).toBe('{"a":1}');
+        });
+
+        it('aborts the builder when the writable fails', async () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.array();
+            const writable = new Writable({
+                write(_, __, callback) {
+                    callback(new Error('disk full'));
+                },
+            });
+
+            arrayBuilder.addItem(1);
+
+            await expect(pipeTo(builder, writable)).rejects.toThrow('disk full');
+            await expect(arrayBuilder.ready()).rejects.toThrow('disk full (at $)');
+        });
+    });
+
+    describe('http responses', () => {
+        it('sends json with content type', async () => {
+            const builder = createBuilder();
+
+            builder.object().addProperty('a', Promise.resolve(1)).end();
+
+            const response = await request(res => sendJson(res, builder, { statusCode: 201 }));
+
+            expect(response.statusCode).toBe(201);
+            expect(response.headers['content-type']).toBe('application/json; charset=utf-8');
+            expect(response.headers['content-encoding']).toBeUndefined();
+            await expect(toText(response)).resolves.toBe('{"a":1}');
+        });
+
+        it.each([
+            ['gzip', 'gzip'],
+            ['gzip, br', 'br'],
+            ['br;q=0.5, gzip', 'gzip'],
+            ['*', 'br'],
+            ['br;q=0, *;q=0.1', 'gzip'],
+            ['identity', undefined],
+            ['*;q=0', undefined],
+        ])('negotiates encoding accepted as %j', async (acceptEncoding, encoding) => {
+            const builder = createBuilder();
+
+            builder.array().addItems([1, 'a', null]).end();
+
+            const response = await request(res => sendJson(res, builder), {
+                'accept-encoding': acceptEncoding,
+            });
+
+            expect(response.headers['content-encoding']).toBe(encoding);
+            expect(response.headers['vary']).toBe('Accept-Encoding');
+            await expect(toText(decompress(response))).resolves.toBe('[1,"a",null]');
+        });
+
+        it('does not compress if disabled', async () => {
+            const builder = createBuilder();
+
+            builder.primitive(1);
+
+            const response = await request(res => sendJson(res, builder, { compress: false }), {
+                'accept-encoding': 'gzip',
+            });
+
+            expect(response.headers['content-encoding']).toBeUndefined();
+            expect(response.headers['vary']).toBeUndefined();
+            await expect(toText(response)).resolves.toBe('1');
+        });
+
+        it('flushes compressed chunks right away', async () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.array();
+
+            arrayBuilder.addItem({ a: 1 });
+
+            const response = await request(res => sendJson(res, builder), {
+                'accept-encoding': 'gzip',
+            });
+            const body = decompress(response).setEncoding('utf-8');
+            const chunks = body[Symbol.asyncIterator]();
+
+            await expect(chunks.next()).resolves.toEqual({ value: '[{"a":1}', done: false });
+
+            arrayBuilder.addItem(2).end();
+
+            await expect(toText(body)).resolves.toBe(',2]');
+        });
+
+        it('aborts the builder once the client disconnects', async () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.array();
+            let sent: Promise<void> = Promise.resolve();
+
+            arrayBuilder.addItem(1);
+
+            const response = await request(res => (sent = sendJson(res, builder)));
+
+            await new Promise(resolve => response.once('data', resolve));
+            response.destroy();
+
+            await expect(sent).rejects.toThrow();
+            await expect(arrayBuilder.ready()).rejects.toThrow(BuilderError);
+        });
+    });
+
+    describe('build to string', () => {
+        it('builds the document synchronously', () => {
+            const json = buildToString(builder => {
+                const objectBuilder = builder.object();
+
+                objectBuilder.addProperty('a').array().addItems([1, 2]).end();
+                const stringBuilder = objectBuilder.addProperty('b').string();
+
+                stringBuilder.write('c');
+                stringBuilder.write('d');
+                stringBuilder.end();
+                objectBuilder.end();
+            });
+
+            expect(JSON.parse(json)).toEqual({ a: [1, 2], b: 'cd' });
+        });
+
+        it('respects builder options', () => {
+            const json = buildToString(builder => builder.array().addItem({ a: 1 }).end(), {
+                indent: 2,
+            });
+
+            expect(json).toBe('[\n  {\n    "a": 1\n  }\n]');
+        });
+
+        it('throws if the document cannot be completed synchronously', () => {
+            expect(() =>
+                buildToString(builder =>
+                    builder.object().addProperty('a', Promise.resolve(1)).end(),
+                ),
+            ).toThrow('Document was not completed synchronously (at $)');
+        });
+
+        it('writes error marker for failures when graceful', () => {
+            const json = buildToString(
+                builder => {
+                    const arrayBuilder = builder.array().addItem(1);
+
+                    arrayBuilder.fail(new Error('failed'));
+                },
+                { onError: 'graceful', errorMarker: () => ({ error: true }) },
+            );
+
+            expect(JSON.parse(json)).toEqual([1, { error: true }]);
+        });
+    });
+
+    describe('backpressure', () => {
+        it('waits for the consumer before accepting more items', async () => {
+            const builder = createBuilder({ highWaterMark: 64 });
+            const arrayBuilder = builder.array();
+            let nWritten = 0;
+
+            const producing = (async () => {
+                for (let i = 0; i < 100; i++) {
+                    await arrayBuilder.write({ i });
+                    nWritten++;
+                }
+
+                arrayBuilder.end();
+            })();
+
+            await wait(20);
+            // nobody reads the stream yet, so the producer has to be stopped
+            expect(nWritten).toBeLessThan(100);
+
+            const result = toJson(builder.asStream());
+            await producing;
+
+            expect(nWritten).toBe(100);
+            await expect(result).resolves.toHaveLength(100);
+        });
+
+        it('waits for the consumer before accepting more properties', async () => {
+            const builder = createBuilder({ highWaterMark: 16 });
+            const objectBuilder = builder.object();
+
+            const ready = vi.fn();
+            objectBuilder.write('a', 'a'.repeat(32)).then(ready);
+
+            await wait(10);
+            expect(ready).not.toHaveBeenCalled();
+
+            objectBuilder.addProperty('b', 'b').end();
+
+            await expect(toJson(builder.asStream())).resolves.toEqual({
+                a: 'a'.repeat(32),
+                b: 'b',
+            });
+            expect(ready).toHaveBeenCalled();
+        });
+
+        it('rejects pending writes when the stream gets destroyed', async () => {
+            const builder = createBuilder({ highWaterMark: 16 });
+            const arrayBuilder = builder.array();
+
+            const written = arrayBuilder.write('a'.repeat(32));
+            const streamError = new Promise(res => builder.asStream().on('error', res));
+
+            arrayBuilder.abort(new Error('aborted'));
+
+            await expect(streamError).resolves.toBeInstanceOf(BuilderError);
+            await expect(written).rejects.toThrow('aborted (at $)');
+            await expect(arrayBuilder.ready()).rejects.toThrow('aborted (at $)');
+        });
+    });
+
+    describe('output chunks', () => {
+        it('passes each write to the consumer by default', async () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.array();
+            const chunks = builder.asIterable()[Symbol.asyncIterator]();
+
+            arrayBuilder.addItem(1);
+            await expect(chunks.next()).resolves.toEqual({ value: '[1', done: false });
+
+            arrayBuilder.addItem(2).end();
+            await expect(chunks.next()).resolves.toEqual({ value: ',2]', done: false });
+        });
+
+        it('coalesces writes into chunks of up to chunk size', async () => {
+            const builder = createBuilder({ chunkSize: 10 });
+            const arrayBuilder = builder.array();
+            const chunks = builder.asIterable()[Symbol.asyncIterator]();
+            const result = collectChunks(chunks);
+
+            for (let i = 1; i <= 6; i++) {
+                arrayBuilder.addItem(i * 111);
+                await wait(1);
+            }
+
+            arrayBuilder.end();
+
+            await expect(result).resolves.toEqual(['[111,222', ',333,444', ',555,666]']);
+        });
+
+        it('passes coalesced writes to the consumer after flush interval', async () => {
+            const builder = createBuilder({ chunkSize: 1024, flushIntervalMs: 20 });
+            const arrayBuilder = builder.array();
+            const chunks = builder.asIterable()[Symbol.asyncIterator]();
+            const read = vi.fn();
+            const firstChunk = chunks.next();
+
+            firstChunk.then(read);
+            arrayBuilder.addItem(1);
+            await wait(1);
+            arrayBuilder.addItem(2);
+            await wait(5);
+
+            expect(read).not.toHaveBeenCalled();
+            await expect(firstChunk).resolves.toEqual({ value: '[1,2', done: false });
+        });
+
+        it('passes coalesced writes to the consumer once waiting for async values', async () => {
+            const builder = createBuilder({ chunkSize: 1024 });
+            const arrayBuilder = builder.array();
+            const chunks = builder.asIterable()[Symbol.asyncIterator]();
+            const letters = async function* () {
+                await wait(20);
+                yield 'a';
+                await wait(10);
+                yield 'b';
+            };
+
+            arrayBuilder.addItem(1);
+            arrayBuilder.addItem(wait(10).then(() => 2));
+            arrayBuilder.addItem(letters()).end();
+
+            await expect(chunks.next()).resolves.toEqual({ value: '[1,', done: false });
+            await expect(chunks.next()).resolves.toEqual({ value: '2,[', done: false });
+            await expect(chunks.next()).resolves.toEqual({ value: '"a"', done: false });
+            await expect(collectChunks(chunks).then(rest => rest.join(''))).resolves.toBe(',"b"]]');
+        });
+
+        it('passes coalesced writes to the consumer once waiting for values provided later', async () => {
+            const builder = createBuilder({ chunkSize: 1024 });
+            const arrayBuilder = builder.array();
+            const chunks = builder.asIterable()[Symbol.asyncIterator]();
+            const read = vi.fn();
+            const firstChunk = chunks.next();
+
+            firstChunk.then(read);
+            arrayBuilder.addItem(1);
+            const itemBuilder = arrayBuilder.addItem();
+            await wait(5);
+
+            expect(read).toHaveBeenCalledWith({ value: '[1,', done: false });
+
+            itemBuilder.primitive(2);
+            arrayBuilder.end();
+
+            await expect(collectChunks(chunks)).resolves.toEqual(['2]']);
+        });
+
+        it('holds coalesced writes while waiting for async values if disabled', async () => {
+            const builder = createBuilder({ chunkSize: 1024, flushWhenIdle: false });
+            const arrayBuilder = builder.array();
+
+            arrayBuilder.addItem(1);
+            arrayBuilder.addItem(wait(10).then(() => 2)).end();
+
+            await expect(
+                collectChunks(builder.asIterable()[Symbol.asyncIterator]()),
+            ).resolves.toEqual(['[1,2]']);
+        });
+
+        it('passes coalesced writes to the consumer on explicit flush', async () => {
+            const builder = createBuilder({ chunkSize: 1024 });
+            const arrayBuilder = builder.array();
+            const chunks = builder.asIterable()[Symbol.asyncIterator]();
+
+            arrayBuilder.addItem(1);
+            builder.flush();
+
+            await expect(chunks.next()).resolves.toEqual({ value: '[1', done: false });
+        });
+
+        it('does not hold data exceeding high water mark', async () => {
+            const builder = createBuilder({ chunkSize: 1024, highWaterMark: 8 });
+            const arrayBuilder = builder.array();
+            const chunks = builder.asIterable()[Symbol.asyncIterator]();
+
+            arrayBuilder.addItem('a'.repeat(10));
+
+            await expect(chunks.next()).resolves.toEqual({
+                value: `["${'a'.repeat(10)}"`,
+                done: false,
+            });
+        });
+
+        it('builds coalesced documents synchronously', () => {
+            expect(buildToString(builder => builder.array([1, 2]), { chunkSize: 1024 })).toBe(
+                '[1,2]',
+            );
+        });
+    });
+
+    describe('timeouts', () => {
+        it('fails the builder which is not complete in time', async () => {
+            const builder = createBuilder({ childTimeoutMs: 10 });
+            const arrayBuilder = builder.array();
+
+            arrayBuilder.addItem(1);
+            arrayBuilder.addItem(new Promise<number>(() => {}));
+            arrayBuilder.end();
+
+            const error = await toJson(builder.asStream()).catch(err => err);
+
+            expect(error).toBeInstanceOf(TimeoutError);
+            expect(error.message).toBe('Not completed within 10ms (at $[1])');
+            expect(builder.timedOutPaths).toEqual([[1]]);
+        });
+
+        it('writes fallback in place of values which are not provided in time', async () => {
+            const builder = createBuilder({ childTimeoutMs: 10, onTimeout: 'fallback' });
+            const objectBuilder = builder.object();
+
+            objectBuilder.addProperty('fast', Promise.resolve(1));
+            objectBuilder.addProperty('slow', new Promise<number>(() => {}));
+            objectBuilder.addProperty('open').array().addItem(1);
+            objectBuilder.end();
+
+            await expect(toJson(builder.asStream())).resolves.toEqual({
+                fast: 1,
+                slow: null,
+                open: [1],
+            });
+            expect(builder.timedOutPaths).toEqual([['slow'], ['open']]);
+        });
+
+        it('uses custom fallback value', () => {
+            const builder = createBuilder({
+                childTimeoutMs: 10,
+                onTimeout: 'fallback',
+                timeoutFallback: 'timed out',
+            });
+
+            builder
+                .array()
+                .addItem(new Promise<number>(() => {}))
+                .addItem(2)
+                .end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual(['timed out', 2]);
+        });
+
+        it('closes all open builders once deadline of the root passes', async () => {
+            const builder = createBuilder({ onTimeout: 'fallback' }).withDeadline(10);
+            const objectBuilder = builder.object();
+
+            objectBuilder.addProperty('a', 1);
+            objectBuilder
+                .addProperty('b')
+                .array()
+                .addItem(new Promise<number>(() => {}));
+
+            await expect(toJson(builder.asStream())).resolves.toEqual({ a: 1, b: [null] });
+            expect(builder.timedOutPaths).toEqual([[]]);
+        });
+
+        it('does not expire builders completed in time', async () => {
+            const builder = createBuilder({ childTimeoutMs: 20 });
+            const arrayBuilder = builder.array();
+
+            arrayBuilder.addItem(wait(5).then(() => 1));
+            arrayBuilder.addItem().withDeadline(50).primitive(2);
+            arrayBuilder.end();
+
+            const result = toJson(builder.asStream());
+
+            await wait(60);
+
+            await expect(result).resolves.toEqual([1, 2]);
+            expect(builder.timedOutPaths).toEqual([]);
+        });
+
+        it('does not expire ended builders waiting for the consumer', async () => {
+            const builder = createBuilder({ childTimeoutMs: 10 });
+
+            builder.array().addItem(Promise.resolve('a')).end();
+
+            await wait(30);
+
+            await expect(toJson(builder.asStream())).resolves.toEqual(['a']);
+        });
+    });
+
+    describe('cancellation', () => {
+        it('aborts signals of builders once the output is destroyed', () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.array();
+            const { signal } = arrayBuilder.addItem();
+            const stream = builder.asStream().on('error', () => {});
+
+            expect(signal.aborted).toBe(false);
+
+            stream.destroy(new Error('client disconnected'));
+
+            expect(signal.aborted).toBe(true);
+            expect(signal.reason).toBeInstanceOf(BuilderError);
+            expect(signal.reason.message).toBe('client disconnected (at $)');
+            expect(arrayBuilder.addItem().signal.aborted).toBe(true);
+        });
+
+        it('does not abort signals of written builders', async () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.array();
+            const writtenBuilder = arrayBuilder.addItem();
+            const { signal } = writtenBuilder;
+            const pendingSignal = arrayBuilder.addItem().signal;
+            const stream = builder.asStream();
+
+            writtenBuilder.primitive(1);
+            await wait(1);
+            stream.destroy();
+
+            expect(signal.aborted).toBe(false);
+            expect(pendingSignal.aborted).toBe(true);
+        });
+
+        it('does not abort signals read after the builder is written', async () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.array();
+            const writtenBuilder = arrayBuilder.addItem();
+            arrayBuilder.addItem();
+            const stream = builder.asStream();
+
+            writtenBuilder.primitive(1);
+            await wait(1);
+            const { signal } = writtenBuilder;
+            stream.destroy();
+
+            expect(signal.aborted).toBe(false);
+        });
+
+        it('aborts signals of builders terminated after failure', async () => {
+            const builder = createBuilder({ onError: 'graceful' });
+            const objectBuilder = builder.object();
+            const pendingBuilder = objectBuilder.addProperty('pending');
+            const { signal } = pendingBuilder.array();
+
+            objectBuilder.addProperty('failed', Promise.reject(new Error('oops'))).end();
+
+            await expect(toJson(builder.asStream())).resolves.toEqual({
+                pending: [],
+                failed: { $error: { message: 'oops', path: '$.failed' } },
+            });
+            expect(signal.aborted).toBe(true);
+            expect(builder.signal.aborted).toBe(true);
+        });
+
+        it('aborts signals of builders timed out with fallback', async () => {
+            const builder = createBuilder({ onTimeout: 'fallback' });
+            const arrayBuilder = builder.array();
+            const { signal } = arrayBuilder.addItem().withDeadline(10);
+
+            arrayBuilder.addItem(1).end();
+
+            await expect(toJson(builder.asStream())).resolves.toEqual([null, 1]);
+            expect(signal.aborted).toBe(true);
+            expect(arrayBuilder.signal.aborted).toBe(false);
+        });
+
+        it('aborts the document once the external signal is aborted', async () => {
+            const controller = new AbortController();
+            const builder = createBuilder({ signal: controller.signal });
+            const arrayBuilder = builder.array();
+            const { signal } = arrayBuilder.addItem();
+            const result = toText(builder.asStream());
+
+            controller.abort(new Error('request cancelled'));
+
+            await expect(result).rejects.toThrow('request cancelled (at $)');
+            expect(signal.aborted).toBe(true);
+        });
+
+        it('aborts the document created with aborted signal', () => {
+            expect(() =>
+                buildToString(builder => builder.primitive(1), { signal: AbortSignal.abort() }),
+            ).toThrow(BuilderError);
+        });
+    });
+
+    describe('errors', () => {
+        it('destroys the stream with the error pointing to the failed path', async () => {
+            const builder = createBuilder();
+            const arrayBuilder = builder.object().addProperty('data').array();
+
+            arrayBuilder.addItem(1);
+            arrayBuilder
+                .addItem()
+                .object()
+                .addProperty('nested')
+                .fail(new Error('upstream failed'));
+
+            const error = await toJson(builder.asStream()).catch(err => err);
+
+            expect(error).toBeInstanceOf(BuilderError);
+            expect(error.message).toBe('upstream failed (at $.data[1].nested)');
+            expect(error.path).toEqual(['data', 1, 'nested']);
+        });
+
+        it('destroys the stream when aborted regardless of error mode', () => {
+            const builder = createBuilder({ onError: 'graceful' });
+
+            builder.array().addItem(1).abort(new Error('aborted'));
+
+            return expect(toJson(builder.asStream())).rejects.toThrow('aborted (at $)');
+        });
+
+        it('fails the builder when source errors', () => {
+            const builder = createBuilder();
+
+            builder.array().addItem(1).addItem(failingSource()).end();
+
+            return expect(toJson(builder.asStream())).rejects.toThrow('source failed (at $[1])');
+        });
+
+        describe('graceful', () => {
+            it('writes error marker in place of the failed item and closes all brackets', () => {
+                const builder = createBuilder({ onError: 'graceful' });
+                const objectBuilder = builder.object();
+
+                objectBuilder.addProperty('message', 'hello');
+
+                const arrayBuilder = objectBuilder.addProperty('data').array();
+
+                arrayBuilder.addItem(1);
+                arrayBuilder.addItem(Promise.reject(new Error('upstream failed')));
+
+                return expect(toJson(builder.asStream())).resolves.toEqual({
+                    message: 'hello',
+                    data: [1, { $error: { message: 'upstream failed', path: '$.data[1]' } }],
+                });
+            });
+
+            it('writes error marker as property of failed object', () => {
+                const builder = createBuilder({ onError: 'graceful' });
+                const objectBuilder = builder.array().addItem().object();
+
+                objectBuilder.addProperty('a', 1);
+                objectBuilder.fail(new Error('oops'));
+
+                return expect(toJson(builder.asStream())).resolves.toEqual([
+                    { a: 1, $error: { message: 'oops', path: '$[0]' } },
+                ]);
+            });
+
+            it('writes null in place of values which are still pending', () => {
+                const builder = createBuilder({ onError: 'graceful' });
+                const arrayBuilder = builder.array();
+
+                arrayBuilder.addItem(new Promise<null>(() => {}));
+                arrayBuilder.addItem().object().addProperty('pending');
+                arrayBuilder.fail(new Error('oops'));
+
+                return expect(toJson(builder.asStream())).resolves.toEqual([
+                    null,
+                    { pending: null },
+                    { $error: { message: 'oops', path: '$' } },
+                ]);
+            });
+
+            it('places the marker in enclosing builder if failed one is already ended', () => {
+                const builder = createBuilder({ onError: 'graceful' });
+                const objectBuilder = builder.object();
+
+                objectBuilder.addProperty('slow').primitive(1);
+
+                const arrayBuilder = objectBuilder.addProperty('items').array();
+
+                arrayBuilder.end();
+                arrayBuilder.fail(new Error('oops'));
+
+                return expect(toJson(builder.asStream())).resolves.toEqual({
+                    slow: 1,
+                    items: [],
+                    $error: { message: 'oops', path: '$.items' },
+                });
+            });
+
+            it('writes error marker after partially written string', () => {
+                const builder = createBuilder({ onError: 'graceful' });
+                const arrayBuilder = builder.array();
+
+                async function* bytes() {
+                    yield Buffer.from([1, 2, 3, 4]);
+                    throw new Error('source failed');
+                }
+
+                arrayBuilder.addItem().base64(bytes());
+                arrayBuilder.addItem(1).end();
+
+                return expect(toJson(builder.asStream())).resolves.toEqual([
+                    'AQID',
+                    { $error: { message: 'source failed', path: '$[0]' } },
+                    1,
+                ]);
+            });
+
+            it('writes error marker as property following failed string', () => {
+                const builder = createBuilder({ onError: 'graceful' });
+                const objectBuilder = builder.object();
+                const stringBuilder = objectBuilder.addProperty('text').string();
+
+                objectBuilder.end();
+                stringBuilder.write('partial');
+                stringBuilder.fail(new Error('oops'));
+
+                return expect(toJson(builder.asStream())).resolves.toEqual({
+                    text: 'partial',
+                    $error: { message: 'oops', path: '$.text' },
+                });
+            });
+
+            it('uses custom error marker', () => {
+                const builder = createBuilder({
+                    onError: 'graceful',
+                    errorMarker: error => ({ error: String(error.reason) }),
+                });
+
+                builder.object().addProperty('a', 1).fail('oops');
+
+                return expect(toJson(builder.asStream())).resolves.toEqual({ a: 1, error: 'oops' });
+            });
+        });
+    });
+
+    describe('invalid uses', () => {
+        it('should ignore cases when trying to write primitive value after emission ended', () => {
+            const builder = createBuilder();
+
+            builder.primitive(42);
+            builder.primitive(42);
+
+            return expect(toJson(builder.asStream())).resolves.toEqual(42);
+        });
+
+        it('should ignore cases when trying to write non-primitive value after emission ended', () => {
+            const builder = createBuilder();
+
+            builder.array().addItem(1).addItem(2).addItem(3).end();
+            builder.array().addItem(1).addItem(2).addItem(3).end();
+
+            return expect(toJson(builder.asStream())).resolves.toEqual([1, 2, 3]);
+        });
+
+        it('should ignore items written after ending the array', () => {
+            const builder = createBuilder();
+
+            const arrayBuilder = builder.array();
+
+            arrayBuilder.addItem(1);
+            arrayBuilder.addItem(2);
+            arrayBuilder.addItem(3);
+            arrayBuilder.end();
+            arrayBuilder.addItem(4);
+
+            return expect(toJson(builder.asStream())).resolves.toEqual([1, 2, 3]);
+        });
+
+        it('should ignore properties written after ending the object', () => {
+            const builder = createBuilder();
+
+            const arrayBuilder = builder.object();
+
+            arrayBuilder.addProperty('a', 1);
+            arrayBuilder.addProperty('b', 2);
+            arrayBuilder.addProperty('c', 3);
+            arrayBuilder.end();
+            arrayBuilder.addProperty('d', 4);
+
+            return expect(toJson(builder.asStream())).resolves.toEqual({ a: 1, b: 2, c: 3 });
+        });
+
+        it('should ignore failures of values added after ending', async () => {
+            const builder = createBuilder();
+            const objectBuilder = builder.object();
+            const arrayBuilder = objectBuilder.addProperty('items').array();
+
+            objectBuilder.end();
+            objectBuilder.addProperty('x', Promise.reject(new Error('late')));
+            arrayBuilder.addItem(1).end();
+            arrayBuilder.addItem().fail(new Error('late'));
+            await wait(1);
+            arrayBuilder
+                .addItem()
+                .array()
+                .addItem(Promise.reject(new Error('late')));
+
+            await expect(toJson(builder.asStream())).resolves.toEqual({ items: [1] });
+        });
+    });
+});
+
+function toText(stream: Readable): Promise<string> {
+    return stream.toArray().then(chunks => chunks.join(''));
+}
+
+/** Sends a request to a server handling it with the `handler`, resolves once the response starts */
+async function request(
+    handler: (res: ServerResponse) => void,
+    headers: OutgoingHttpHeaders = {},
+): Promise<IncomingMessage> {
+    const server = createServer((_, res) => handler(res));
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+
+    return new Promise<IncomingMessage>((resolve, reject) => {
+        get({ host: '127.0.0.1', port, headers, agent: false }, resolve).on('error', reject);
+    }).finally(() => server.close());
+}
+
+function decompress(response: IncomingMessage): Readable {
+    const encoding = response.headers['content-encoding'];
+
+    if (encoding === 'gzip') return response.pipe(createGunzip());
+    if (encoding === 'br') return response.pipe(createBrotliDecompress());
+
+    return response;
+}
+
+/** Rejections which were not handled while running the `callback` */
+async function unhandledRejections(callback: () => void): Promise<unknown[]> {
+    const rejections: unknown[] = [];
+    const onRejection = (reason: unknown) => rejections.push(reason);
+
+    process.on('unhandledRejection', onRejection);
+
+    try {
+        callback();
+        await wait(10);
+    } finally {
+        process.off('unhandledRejection', onRejection);
+    }
+
+    return rejections;
+}
+
+/** Bytes of binary string written by binary encoders */
+function hex(binary: string): string {
+    return Buffer.from(binary, 'latin1').toString('hex');
+}
+
+async function collectChunks(chunks: AsyncIterator<string>): Promise<string[]> {
+    const result: string[] = [];
+
+    for (let next = await chunks.next(); !next.done; next = await chunks.next()) {
+        result.push(next.value);
+    }
+
+    return result;
+}
+
+function wait(nMs: number) {
+    return new Promise(res => setTimeout(res, nMs));
+}
+
+async function* failingSource() {
+    yield 1;
+    throw new Error('source failed');
+}
+
+async function* failingBinarySource() {
+    yield Buffer.from([1]);
+    throw new Error('source failed');
+}
+
+async function* generate<T>(items: T[]) {
+    for (const item of items) {
+        await wait(5);
+        yield item;
+    }
 }
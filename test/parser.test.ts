@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+
+import { createBuilder, parse, ParseError } from '../json-stream-builder';
+
+describe('parser', () => {
+    it('parses the whole document by default', async () => {
+        const values = await collect(parse(chunks('{"a": [1, true, null], "b": {"c": "d"}}', 3)));
+
+        expect(values).toEqual([{ a: [1, true, null], b: { c: 'd' } }]);
+    });
+
+    it('parses primitive documents', async () => {
+        await expect(collect(parse(chunks(' 12.5e3 ', 2)))).resolves.toEqual([12.5e3]);
+        await expect(collect(parse(chunks('"a\\"b"', 1)))).resolves.toEqual(['a"b']);
+        await expect(collect(parse(chunks('false', 2)))).resolves.toEqual([false]);
+    });
+
+    it('yields array items matching the selector', async () => {
+        const text =
+            '{"meta": {"n": 2}, "data": [{"id": 1}, {"id": 2, "tags": ["a"]}], "other": [3]}';
+
+        await expect(collect(parse(chunks(text, 5), '$.data[*]'))).resolves.toEqual([
+            { id: 1 },
+            { id: 2, tags: ['a'] },
+        ]);
+        await expect(collect(parse(chunks(text, 5), '$.data[*].id'))).resolves.toEqual([1, 2]);
+        await expect(collect(parse(chunks(text, 5), '$.data[1]'))).resolves.toEqual([
+            { id: 2, tags: ['a'] },
+        ]);
+        await expect(collect(parse(chunks(text, 5), '$.*'))).resolves.toEqual([
+            { n: 2 },
+            [{ id: 1 }, { id: 2, tags: ['a'] }],
+            [3],
+        ]);
+    });
+
+    it('supports quoted keys in the selector', async () => {
+        const text = '{"a b": {"c\'d": 1, "e\\"f": 2}}';
+
+        await expect(collect(parse(chunks(text, 4), "$['a b']['c\\'d']"))).resolves.toEqual([1]);
+        await expect(collect(parse(chunks(text, 4), '$["a b"]["e\\"f"]'))).resolves.toEqual([2]);
+    });
+
+    it('yields each value as soon as it is complete', async () => {
+        const builder = createBuilder();
+        const arrayBuilder = builder.array();
+        const items = parse(builder.asStream(), '$[*]')[Symbol.asyncIterator]();
+
+        arrayBuilder.addItem({ a: 1 });
+        await expect(items.next()).resolves.toEqual({ value: { a: 1 }, done: false });
+
+        arrayBuilder.addItem('b');
+        arrayBuilder.addItem(2);
+        await expect(items.next()).resolves.toEqual({ value: 'b', done: false });
+
+        // number is complete only once followed by other character
+        arrayBuilder.end();
+        await expect(items.next()).resolves.toEqual({ value: 2, done: false });
+        await expect(items.next()).resolves.toEqual({ value: undefined, done: true });
+    });
+
+    it('decodes binary chunks splitting multi byte characters', async () => {
+        const bytes = Buffer.from('["zażółć", "🎉"]');
+        const source = Readable.from(
+            Array.from({ length: bytes.length }, (_, i) => bytes.subarray(i, i + 1)),
+        );
+
+        await expect(collect(parse(source, '$[*]'))).resolves.toEqual(['zażółć', '🎉']);
+    });
+
+    it('rejects invalid json with byte offset and path', async () => {
+        const error = await collect(parse(chunks('{"ą": [1, 2 3]}', 2))).catch(e => e);
+
+        expect(error).toBeInstanceOf(ParseError);
+        expect(error).toMatchObject({ offset: 13, path: ['ą'] });
+        expect(error.message).toBe('Expected comma or bracket (at $["ą"], byte 13)');
+    });
+
+    it.each([
+        ['', 'Unexpected end of input'],
+        ['[1, 2', 'Unexpected end of input'],
+        ['{"a" 1}', 'Expected colon'],
+        ['{a: 1}', 'Expected string key'],
+        ['[01]', 'Invalid number'],
+        ['[1.]', 'Invalid number'],
+        ['[nul]', 'Invalid literal'],
+        ['["\\x"]', 'Invalid escape sequence'],
+        ['["\\u12g4"]', 'Invalid unicode escape sequence'],
+        ['["a\nb"]', 'Unescaped control character in string'],
+        ['[1] [2]', 'Unexpected data after the end of the document'],
+        ['[1, ]', 'Unexpected character'],
+    ])('rejects %j', async (text, message) => {
+        await expect(collect(parse(chunks(text, 2)))).rejects.toThrow(message);
+    });
+
+    it('yields values completed before invalid text', async () => {
+        const values: unknown[] = [];
+        const iterate = async () => {
+            for await (const value of parse(chunks('[1,2,3]x', 8), '$[*]')) values.push(value);
+        };
+
+        await expect(iterate()).rejects.toThrow('Unexpected data after the end of the document');
+        expect(values).toEqual([1, 2, 3]);
+    });
+
+    it('rejects invalid selectors', () => {
+        expect(() => parse(chunks('[]', 1), 'data')).toThrow('Invalid selector');
+        expect(() => parse(chunks('[]', 1), '$.data[x]')).toThrow('Invalid selector');
+    });
+});
+
+async function collect<T>(values: AsyncIterable<T>): Promise<T[]> {
+    const result: T[] = [];
+
+    for await (const value of values) result.push(value);
+
+    return result;
+}
+
+async function* chunks(text: string, size: number) {
+    for (let i = 0; i < text.length; i += size) yield text.slice(i, i + size);
+}